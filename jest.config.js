@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+export default {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    // The sources are ES modules; compile them to CommonJS for Jest
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs' } }],
+  },
+  // Imports carry the .js extension of the compiled output
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+};
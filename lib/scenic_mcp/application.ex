@@ -12,7 +12,12 @@ defmodule ScenicMcp.Application do
     # config is declared inside the app we want to use ScenicMCP with
     port = Application.get_env(:scenic_mcp, :port, @default_port)
     app_name = Application.get_env(:scenic_mcp, :app_name, "Unknown")
-    children = [{ScenicMcp.Server, port: port, app_name: app_name}]
+    socket_path = ScenicMcp.Config.socket_path()
+
+    children = [
+      ScenicMcp.InputTrace,
+      {ScenicMcp.Server, port: port, app_name: app_name, socket_path: socket_path}
+    ]
 
     boot_result = Supervisor.start_link(children,
       name: ScenicMcp.Supervisor,
@@ -21,12 +26,17 @@ defmodule ScenicMcp.Application do
 
     case boot_result do
       {:ok, pid} when is_pid(pid) ->
-        Logger.info("✅ ScenicMCP successfully started on port #{port}")
+        Logger.info("✅ ScenicMCP successfully started on #{if socket_path, do: "socket #{socket_path}", else: "port #{port}"}")
         {:ok, pid}
 
       {:error, {:shutdown, {:failed_to_start_child, ScenicMcp.Server, {:shutdown, :eaddrinuse}}}} ->
-        Logger.error("❌ Port #{port} is already in use! Please configure a different port for #{app_name}")
-        Logger.error("💡 Add to your config: config :scenic_mcp, port: YOUR_UNIQUE_PORT")
+        if socket_path do
+          Logger.error("❌ Socket #{socket_path} is already in use! Please configure a different socket_path for #{app_name}")
+        else
+          Logger.error("❌ Port #{port} is already in use! Please configure a different port for #{app_name}")
+          Logger.error("💡 Add to your config: config :scenic_mcp, port: YOUR_UNIQUE_PORT")
+        end
+
         {:error, :port_in_use}
 
       {:error, reason} ->
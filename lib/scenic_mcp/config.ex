@@ -13,9 +13,15 @@ defmodule ScenicMcp.Config do
   ## Configuration Options
 
   - `:port` - TCP port for the MCP server (default: 9999)
+  - `:socket_path` - Listen on this Unix domain socket instead of the TCP port (default: none)
   - `:viewport_name` - Registered name of the Scenic viewport process (default: :main_viewport)
   - `:driver_name` - Registered name of the Scenic driver process (default: :scenic_driver)
   - `:app_name` - Human-readable name of your application (default: "Unknown")
+  - `:auth_token` - Shared secret clients must send before any other command (default: none)
+  - `:auth_token_file` - File holding the shared secret, used when `:auth_token` is not set
+
+  When neither is set, the `SCENIC_MCP_TOKEN` environment variable is used. Without a
+  token, authentication is disabled.
   """
 
   @doc """
@@ -26,6 +32,14 @@ defmodule ScenicMcp.Config do
     Application.get_env(:scenic_mcp, :port, 9999)
   end
 
+  @doc """
+  Get the Unix domain socket path for the MCP server, or nil to listen on the TCP port.
+  """
+  @spec socket_path() :: String.t() | nil
+  def socket_path do
+    Application.get_env(:scenic_mcp, :socket_path)
+  end
+
   @doc """
   Get the registered name of the Scenic viewport process.
   """
@@ -49,4 +63,43 @@ defmodule ScenicMcp.Config do
   def app_name do
     Application.get_env(:scenic_mcp, :app_name, "Unknown")
   end
+
+  @doc """
+  Get the shared secret clients must authenticate with, or nil when authentication is disabled.
+
+  Raises if `:auth_token_file` is set but cannot be read, so a misconfigured app fails
+  at startup instead of silently running without authentication.
+  """
+  @spec auth_token() :: String.t() | nil
+  def auth_token do
+    cond do
+      token = present(Application.get_env(:scenic_mcp, :auth_token)) ->
+        token
+
+      path = Application.get_env(:scenic_mcp, :auth_token_file) ->
+        read_token_file(path)
+
+      true ->
+        present(System.get_env("SCENIC_MCP_TOKEN"))
+    end
+  end
+
+  defp read_token_file(path) do
+    case File.read(path) do
+      {:ok, contents} ->
+        present(contents) || raise ArgumentError, "ScenicMcp :auth_token_file #{path} is empty"
+
+      {:error, reason} ->
+        raise ArgumentError, "Cannot read ScenicMcp :auth_token_file #{path}: #{:file.format_error(reason)}"
+    end
+  end
+
+  defp present(value) when is_binary(value) do
+    case String.trim(value) do
+      "" -> nil
+      token -> token
+    end
+  end
+
+  defp present(_value), do: nil
 end
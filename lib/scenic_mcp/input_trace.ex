@@ -0,0 +1,313 @@
+defmodule ScenicMcp.InputTrace do
+  @moduledoc """
+  Records the input events flowing through the Scenic viewport.
+
+  While a trace is running, the viewport process is traced with `:erlang.trace/3`.
+  Every input the driver casts to the viewport is logged as an event, and every input
+  the viewport forwards to a scene is attached to that event, so the log shows both
+  what the app received and which scene or component handled it. An event that was
+  forwarded nowhere went unhandled.
+
+  Only one trace runs at a time, and while it runs it replaces any other tracer on
+  the viewport process.
+
+  ## Usage
+
+      ScenicMcp.InputTrace.start(viewport_pid, max_events: 500)
+      # ... send some input ...
+      {:ok, %{events: events}} = ScenicMcp.InputTrace.stop()
+  """
+
+  use GenServer
+  require Logger
+
+  @default_max_events 1000
+
+  def start_link(opts \\ []) do
+    GenServer.start_link(__MODULE__, opts, name: __MODULE__)
+  end
+
+  @doc """
+  Start tracing the viewport, discarding the previous log.
+
+  Options:
+  - `:max_events` - Events to keep; older ones are dropped (default: #{@default_max_events})
+  - `:include_moves` - Whether to log `cursor_pos` events (default: true)
+  """
+  @spec start(pid(), keyword()) :: :ok | {:error, String.t()}
+  def start(viewport_pid, opts \\ []) do
+    GenServer.call(__MODULE__, {:start, viewport_pid, opts})
+  end
+
+  @doc """
+  Stop tracing. Returns the log, which stays available from `log/0` until the next start.
+  """
+  @spec stop() :: {:ok, map()}
+  def stop do
+    GenServer.call(__MODULE__, :stop)
+  end
+
+  @doc """
+  Get the log so far without stopping the trace.
+  """
+  @spec log() :: {:ok, map()}
+  def log do
+    GenServer.call(__MODULE__, :log)
+  end
+
+  # ========================================================================
+  # GenServer Callbacks
+  # ========================================================================
+
+  @impl true
+  def init(_opts) do
+    {:ok, new_state(@default_max_events, true)}
+  end
+
+  @impl true
+  def handle_call({:start, viewport_pid, opts}, _from, state) do
+    state = stop_tracing(state)
+
+    try do
+      :erlang.trace(viewport_pid, true, [:receive, :send, {:tracer, self()}])
+
+      state =
+        %{
+          new_state(Keyword.get(opts, :max_events, @default_max_events), Keyword.get(opts, :include_moves, true))
+          | tracing: true,
+            viewport: viewport_pid,
+            monitor: Process.monitor(viewport_pid),
+            started_at: System.monotonic_time(:millisecond),
+            started_at_utc: DateTime.to_iso8601(DateTime.utc_now())
+        }
+
+      {:reply, :ok, state}
+    rescue
+      ArgumentError -> {:reply, {:error, "Viewport process #{inspect(viewport_pid)} is not running"}, state}
+    end
+  end
+
+  def handle_call(:stop, _from, state) do
+    state = stop_tracing(state)
+    {:reply, {:ok, report(state)}, state}
+  end
+
+  def handle_call(:log, _from, state) do
+    {:reply, {:ok, report(state)}, state}
+  end
+
+  @impl true
+  def handle_info({:trace, viewport, :receive, message}, %{viewport: viewport} = state) do
+    case input_message(message) do
+      {:ok, input} -> {:noreply, record_event(state, input)}
+      :error -> {:noreply, state}
+    end
+  end
+
+  def handle_info({:trace, viewport, :send, message, to}, %{viewport: viewport} = state) do
+    case delivery_message(message) do
+      {:ok, id} -> {:noreply, record_delivery(state, to, id)}
+      :error -> {:noreply, state}
+    end
+  end
+
+  def handle_info({:DOWN, ref, :process, _pid, reason}, %{monitor: ref} = state) do
+    Logger.warning("#{__MODULE__} - Viewport stopped during input trace: #{inspect(reason)}")
+    {:noreply, %{state | tracing: false, viewport: nil, monitor: nil, stopped_reason: inspect(reason)}}
+  end
+
+  # Trace messages still queued after the trace stopped, and anything else
+  def handle_info(_message, state) do
+    {:noreply, state}
+  end
+
+  # ========================================================================
+  # Recording
+  # ========================================================================
+
+  defp new_state(max_events, include_moves) do
+    %{
+      tracing: false,
+      viewport: nil,
+      monitor: nil,
+      started_at: nil,
+      started_at_utc: nil,
+      stopped_at: nil,
+      stopped_reason: nil,
+      max_events: max_events,
+      include_moves: include_moves,
+      events: :queue.new(),
+      count: 0,
+      dropped: 0,
+      next_seq: 1,
+      # Deliveries of a skipped cursor_pos event must not attach to the event before it
+      skipping: false
+    }
+  end
+
+  defp stop_tracing(%{viewport: viewport, monitor: monitor} = state) when is_pid(viewport) do
+    Process.demonitor(monitor, [:flush])
+
+    try do
+      :erlang.trace(viewport, false, [:receive, :send])
+    rescue
+      ArgumentError -> :ok
+    end
+
+    %{state | tracing: false, viewport: nil, monitor: nil, stopped_at: System.monotonic_time(:millisecond)}
+  end
+
+  defp stop_tracing(state), do: state
+
+  # Driver input reaches the viewport as a cast
+  defp input_message({:"$gen_cast", {:input, input}}), do: {:ok, input}
+  defp input_message({:input, input}), do: {:ok, input}
+  defp input_message(_message), do: :error
+
+  # The viewport forwards input to a scene along with the id of the primitive it hit
+  defp delivery_message({:"$gen_cast", message}), do: delivery_message(message)
+  defp delivery_message({:_input, _input, _raw_input, id}), do: {:ok, id}
+  defp delivery_message(_message), do: :error
+
+  defp record_event(%{include_moves: false} = state, {:cursor_pos, _}) do
+    %{state | skipping: true}
+  end
+
+  defp record_event(state, input) do
+    event =
+      input
+      |> describe_input()
+      |> Map.merge(%{
+        seq: state.next_seq,
+        t_ms: System.monotonic_time(:millisecond) - state.started_at,
+        handled_by: []
+      })
+
+    events = :queue.in(event, state.events)
+
+    {events, count, dropped} =
+      if state.count >= state.max_events do
+        {:queue.drop(events), state.count, state.dropped + 1}
+      else
+        {events, state.count + 1, state.dropped}
+      end
+
+    %{state | events: events, count: count, dropped: dropped, next_seq: state.next_seq + 1, skipping: false}
+  end
+
+  defp record_delivery(%{skipping: true} = state, _to, _id), do: state
+
+  defp record_delivery(state, to, id) do
+    case :queue.out_r(state.events) do
+      {{:value, event}, rest} ->
+        event = %{event | handled_by: event.handled_by ++ [%{pid: to, id: id}]}
+        %{state | events: :queue.in(event, rest)}
+
+      {:empty, _} ->
+        state
+    end
+  end
+
+  # ========================================================================
+  # Reporting
+  # ========================================================================
+
+  defp report(state) do
+    {events, _names} =
+      state.events
+      |> :queue.to_list()
+      |> Enum.map_reduce(%{}, fn event, names ->
+        {handled_by, names} =
+          Enum.map_reduce(event.handled_by, names, fn %{pid: pid, id: id}, names ->
+            names = Map.put_new_lazy(names, pid, fn -> scene_name(pid) end)
+            {%{scene: Map.fetch!(names, pid), pid: inspect(pid), id: term_name(id)}, names}
+          end)
+
+        {%{event | handled_by: handled_by}, names}
+      end)
+
+    duration_ms =
+      cond do
+        state.started_at == nil -> 0
+        state.tracing -> System.monotonic_time(:millisecond) - state.started_at
+        true -> (state.stopped_at || state.started_at) - state.started_at
+      end
+
+    %{
+      tracing: state.tracing,
+      started_at: state.started_at_utc,
+      duration_ms: duration_ms,
+      include_moves: state.include_moves,
+      count: length(events),
+      dropped: state.dropped,
+      stopped_reason: state.stopped_reason,
+      events: events
+    }
+  end
+
+  defp describe_input({:cursor_pos, {x, y}}), do: %{type: "cursor_pos", x: x, y: y}
+
+  defp describe_input({:cursor_button, {button, action, modifiers, {x, y}}}) do
+    %{
+      type: "cursor_button",
+      button: term_name(button),
+      action: action_name(action),
+      modifiers: modifier_names(modifiers),
+      x: x,
+      y: y
+    }
+  end
+
+  defp describe_input({:cursor_scroll, {{dx, dy}, {x, y}}}) do
+    %{type: "cursor_scroll", dx: dx, dy: dy, x: x, y: y}
+  end
+
+  defp describe_input({:key, {key, action, modifiers}}) do
+    %{type: "key", key: term_name(key), action: action_name(action), modifiers: modifier_names(modifiers)}
+  end
+
+  defp describe_input({:codepoint, {codepoint, modifiers}}) do
+    %{type: "codepoint", key: codepoint_string(codepoint), modifiers: modifier_names(modifiers)}
+  end
+
+  defp describe_input({type, data}) when is_atom(type), do: %{type: Atom.to_string(type), data: inspect(data)}
+  defp describe_input(other), do: %{type: "unknown", data: inspect(other)}
+
+  defp action_name(1), do: "press"
+  defp action_name(0), do: "release"
+  defp action_name(2), do: "repeat"
+  defp action_name(action), do: term_name(action)
+
+  defp modifier_names(modifiers) when is_list(modifiers), do: Enum.map(modifiers, &term_name/1)
+  defp modifier_names(_modifiers), do: []
+
+  defp codepoint_string(codepoint) when is_integer(codepoint) do
+    <<codepoint::utf8>>
+  rescue
+    ArgumentError -> inspect(codepoint)
+  end
+
+  defp codepoint_string(codepoint), do: term_name(codepoint)
+
+  defp term_name(nil), do: nil
+  defp term_name(term) when is_atom(term), do: Atom.to_string(term)
+  defp term_name(term) when is_binary(term), do: term
+  defp term_name(term), do: inspect(term)
+
+  # The scene's registered name, or its module and id, read from its state
+  defp scene_name(pid) do
+    case Process.info(pid, :registered_name) do
+      {:registered_name, name} when is_atom(name) ->
+        inspect(name)
+
+      _ ->
+        case :sys.get_state(pid, 100) do
+          %{module: module, id: id} when is_atom(module) and not is_nil(id) -> "#{inspect(module)} (#{inspect(id)})"
+          %{module: module} when is_atom(module) -> inspect(module)
+          _ -> inspect(pid)
+        end
+    end
+  catch
+    :exit, _ -> inspect(pid)
+  end
+end
@@ -5,6 +5,14 @@ defmodule ScenicMcp.Server do
   also as JSON back over the same channel.
 
   MCP Server (TypeScript) → TCP Bridge (stdIO) → Elixir Server (this module) → Scenic ViewPort → Scenic App
+
+  With a `:socket_path`, the server listens on that Unix domain socket instead of the TCP port.
+  The socket file is readable and writable only by its owner, so filesystem permissions decide
+  who can connect.
+
+  When an auth token is configured (see `ScenicMcp.Config.auth_token/0`), each connection must
+  send `{"action": "auth", "token": "..."}` before anything else. Until it does, every command
+  except `hello` is rejected, and a wrong token closes the connection.
   """
   use GenServer
   require Logger
@@ -16,11 +24,29 @@ defmodule ScenicMcp.Server do
   def init(opts) do
     port = Keyword.fetch!(opts, :port)
     app_name = Keyword.get(opts, :app_name, "Unknown")
+    auth_token = Keyword.get_lazy(opts, :auth_token, &ScenicMcp.Config.auth_token/0)
+    socket_path = Keyword.get(opts, :socket_path)
+    endpoint = if socket_path, do: "socket #{socket_path}", else: "port #{port}"
 
-    case :gen_tcp.listen(port, [:binary, packet: :line, active: false, reuseaddr: true]) do
+    case listen(port, socket_path) do
       {:ok, listen_socket} ->
-        Logger.info("ScenicMCP TCP server listening for #{app_name} on port #{port}")
-        {:ok, %{listen_socket: listen_socket, port: port, app_name: app_name}, {:continue, :accept}}
+        auth = if auth_token, do: " (token authentication enabled)", else: ""
+        Logger.info("ScenicMCP server listening for #{app_name} on #{endpoint}#{auth}")
+
+        state = %{
+          listen_socket: listen_socket,
+          port: port,
+          socket_path: socket_path,
+          app_name: app_name,
+          auth_token: auth_token
+        }
+
+        {:ok, state, {:continue, :accept}}
+
+      {:error, :eaddrinuse} when is_binary(socket_path) ->
+        Logger.error("❌ Socket #{socket_path} is already in use for #{app_name}!")
+        Logger.error("💡 Another app is listening on it. Configure a unique path: config :scenic_mcp, socket_path: PATH")
+        {:stop, :eaddrinuse}
 
       {:error, :eaddrinuse} ->
         Logger.error("❌ Port #{port} is already in use for #{app_name}!")
@@ -29,15 +55,60 @@ defmodule ScenicMcp.Server do
         {:stop, :eaddrinuse}
 
       {:error, reason} ->
-        Logger.error("Failed to start TCP server on port #{port} for #{app_name}: #{inspect(reason)}")
+        Logger.error("Failed to start server on #{endpoint} for #{app_name}: #{inspect(reason)}")
         {:stop, "Failed to start TCP server"}
     end
   end
 
+  @listen_options [:binary, packet: :line, active: false]
+
+  defp listen(port, nil) do
+    :gen_tcp.listen(port, [{:reuseaddr, true} | @listen_options])
+  end
+
+  defp listen(_port, socket_path) do
+    with :ok <- remove_stale_socket(socket_path),
+         {:ok, listen_socket} <- :gen_tcp.listen(0, [{:ifaddr, {:local, socket_path}} | @listen_options]) do
+      case File.chmod(socket_path, 0o600) do
+        :ok -> :ok
+        {:error, reason} -> Logger.warning("Could not restrict permissions of #{socket_path}: #{inspect(reason)}")
+      end
+
+      {:ok, listen_socket}
+    end
+  end
+
+  # A socket file left behind by a previous run makes listen fail, so remove it -
+  # unless another app still answers on it, or the path is not a socket at all
+  defp remove_stale_socket(socket_path) do
+    case File.lstat(socket_path) do
+      {:error, :enoent} ->
+        :ok
+
+      {:ok, %File.Stat{type: :other}} ->
+        case :gen_tcp.connect({:local, socket_path}, 0, [:binary, active: false], 500) do
+          {:ok, socket} ->
+            :gen_tcp.close(socket)
+            {:error, :eaddrinuse}
+
+          {:error, _} ->
+            File.rm(socket_path)
+        end
+
+      {:ok, _stat} ->
+        {:error, "#{socket_path} exists and is not a socket"}
+
+      {:error, reason} ->
+        {:error, reason}
+    end
+  end
+
   def handle_continue(:accept, %{listen_socket: listen_socket} = state) do
     case :gen_tcp.accept(listen_socket) do
       {:ok, client} ->
-        {:noreply, Map.put(state, :client, client), {:continue, :loop}}
+        # Every connection authenticates afresh
+        state = Map.merge(state, %{client: client, authenticated: state.auth_token == nil})
+        {:noreply, state, {:continue, :loop}}
 
       {:error, reason} ->
         Logger.error("Failed to accept connection: #{inspect(reason)}")
@@ -49,12 +120,16 @@ defmodule ScenicMcp.Server do
     case :gen_tcp.recv(client, 0) do
       {:ok, data} ->
         # Parse the incoming data
-        response = parse_message(String.trim(data))
+        case parse_message(String.trim(data), state) do
+          {:reply, response, state} ->
+            :gen_tcp.send(client, Jason.encode!(response) <> "\n")
+            {:noreply, state, {:continue, :loop}}
 
-        json_response = Jason.encode!(response) <> "\n"
-        :gen_tcp.send(client, json_response)
-
-        {:noreply, state, {:continue, :loop}}
+          {:close, response, state} ->
+            :gen_tcp.send(client, Jason.encode!(response) <> "\n")
+            :gen_tcp.close(client)
+            {:noreply, Map.delete(state, :client), {:continue, :accept}}
+        end
 
       {:error, :closed} ->
         Logger.info("Client disconnected")
@@ -72,33 +147,119 @@ defmodule ScenicMcp.Server do
     {:noreply, state}
   end
 
-  def parse_message("hello") do
+  def parse_message("hello", state) do
     # Special case for "hello" command used by TypeScript for connection testing
-    %{status: "ok", message: "Hello from Scenic MCP Server"}
+    {:reply, hello_response(state), state}
   end
 
-  def parse_message(json_string) do
+  def parse_message(json_string, state) do
     case Jason.decode(json_string) do
-
-      {:ok, %{"action" => "status"}} ->
-        # Handle status command
-        %{status: "ok", message: "Scenic MCP Server is running"}
-
-      {:ok, %{"action" => all_other_actions} = actn} when is_binary(all_other_actions) ->
-        # Handle tool calls
-        ScenicMcp.Tools.handle_action(actn)
-        |> handle_tool_result()
-
       {:ok, command} ->
-        Logger.error("#{__MODULE__} received unknown command: #{inspect(command)}")
-        %{error: "Unknown command", command: command}
+        authorize(command, state)
 
       {:error, _} ->
         Logger.error("#{__MODULE__} received invalid JSON: #{inspect(json_string)}")
-        %{error: "Invalid JSON"}
+        {:reply, %{error: "Invalid JSON"}, state}
     end
   end
 
+  # ========================================================================
+  # Authentication
+  # ========================================================================
+
+  defp authorize(%{"action" => "auth"} = command, state) do
+    case check_token(command["token"], state.auth_token) do
+      :ok ->
+        response = %{status: "ok", authenticated: true, auth_required: state.auth_token != nil}
+        {:reply, put_request_id(response, command), %{state | authenticated: true}}
+
+      {:error, reason} ->
+        Logger.warning("#{__MODULE__} rejected a client: #{reason}")
+        {:close, put_request_id(%{error: reason, auth_required: true}, command), state}
+    end
+  end
+
+  # hello stays open so discovery and health checks can see that a token is needed
+  defp authorize(%{"action" => "hello"} = command, state) do
+    {:reply, put_request_id(hello_response(state), command), state}
+  end
+
+  defp authorize(command, %{authenticated: false} = state) do
+    error =
+      "Authentication required: this Scenic app expects a token. " <>
+        "Set SCENIC_MCP_TOKEN (or --token-file) for the MCP server to the app's token."
+
+    {:reply, put_request_id(%{error: error, auth_required: true}, command), state}
+  end
+
+  defp authorize(command, state) do
+    response =
+      command
+      |> handle_command()
+      |> put_request_id(command)
+
+    {:reply, response, state}
+  end
+
+  defp check_token(_token, nil), do: :ok
+
+  defp check_token(token, expected) when is_binary(token) do
+    # Compare digests so the time taken does not reveal how much of the token matched
+    if :crypto.hash(:sha256, token) == :crypto.hash(:sha256, expected) do
+      :ok
+    else
+      {:error, "Authentication failed: invalid token"}
+    end
+  end
+
+  defp check_token(_token, _expected), do: {:error, "Authentication failed: must provide 'token' as a string"}
+
+  # ========================================================================
+  # Commands
+  # ========================================================================
+
+  defp handle_command(%{"action" => "status"}) do
+    # Handle status command
+    %{status: "ok", message: "Scenic MCP Server is running"}
+  end
+
+  defp handle_command(%{"action" => all_other_actions} = actn) when is_binary(all_other_actions) do
+    # Handle tool calls
+    ScenicMcp.Tools.handle_action(actn)
+    |> handle_tool_result()
+  end
+
+  defp handle_command(command) do
+    Logger.error("#{__MODULE__} received unknown command: #{inspect(command)}")
+    %{error: "Unknown command", command: command}
+  end
+
+  # Also used by the TypeScript side to discover running apps, so describe ourselves.
+  # The heartbeat compares instance_id between pings to notice the app restarting.
+  defp hello_response(state) do
+    {uptime_ms, _since_last_call} = :erlang.statistics(:wall_clock)
+
+    %{
+      status: "ok",
+      message: "Hello from Scenic MCP Server",
+      app_name: ScenicMcp.Config.app_name(),
+      viewport_name: ScenicMcp.Config.viewport_name(),
+      driver_name: ScenicMcp.Config.driver_name(),
+      instance_id: System.pid(),
+      uptime_ms: uptime_ms,
+      auth_required: state.auth_token != nil,
+      authenticated: state.authenticated
+    }
+  end
+
+  # The TypeScript side tags every command with a request_id and multiplexes
+  # several in-flight requests over one socket, so echo it back on the reply.
+  defp put_request_id(response, %{"request_id" => request_id}) when is_map(response) do
+    Map.put(response, :request_id, request_id)
+  end
+
+  defp put_request_id(response, _command), do: response
+
   # Convert {:ok, result} | {:error, reason} tuples to maps for JSON encoding
   defp handle_tool_result({:ok, result}), do: result
   defp handle_tool_result({:error, reason}), do: %{error: reason}
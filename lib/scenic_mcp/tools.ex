@@ -4,9 +4,13 @@ defmodule ScenicMcp.Tools do
 
   Provides handlers for:
   - Keyboard input
-  - Mouse input
+  - Mouse input (move, click, press/release, scroll, drag)
   - Screenshot capture
   - Viewport inspection
+  - Hit-testing screen points against semantic elements
+  - Input event tracing
+  - Script and semantic table snapshots (backing the MCP resources)
+  - Rendered text queries
 
   All functions return either `{:ok, result}` or `{:error, reason}` tuples
   for consistent error handling.
@@ -115,6 +119,66 @@ defmodule ScenicMcp.Tools do
       {:error, "Failed to send input: #{inspect(reason)}"}
   end
 
+  # ========================================================================
+  # Input Tracing
+  # ========================================================================
+
+  @doc """
+  Start recording the input events flowing through the viewport, discarding any
+  previous trace (see `ScenicMcp.InputTrace`).
+
+  Optional params:
+  - `max_events`: Events to keep; older ones are dropped (default: 1000)
+  - `include_moves`: Whether to log cursor movement (default: true)
+
+  Returns `{:ok, result_map}` or `{:error, reason}`.
+  """
+  @spec start_input_trace(map()) :: {:ok, map()} | {:error, String.t()}
+  def start_input_trace(params) do
+    max_events = Map.get(params, "max_events", 1000)
+    include_moves = Map.get(params, "include_moves", true) != false
+
+    if is_integer(max_events) and max_events > 0 do
+      with {:ok, vp_pid} <- viewport_pid(),
+           :ok <- ScenicMcp.InputTrace.start(vp_pid, max_events: max_events, include_moves: include_moves) do
+        {:ok, %{status: "ok", message: "Input trace started", max_events: max_events, include_moves: include_moves}}
+      end
+    else
+      {:error, "Invalid parameters: 'max_events' must be a positive integer"}
+    end
+  catch
+    :exit, reason ->
+      {:error, "Input tracer is not available: #{inspect(reason)}"}
+  end
+
+  @doc """
+  Stop the input trace and return its time-ordered event log.
+
+  Returns `{:ok, %{events: [...], count: n, dropped: n, ...}}` or `{:error, reason}`.
+  """
+  @spec stop_input_trace(map()) :: {:ok, map()} | {:error, String.t()}
+  def stop_input_trace(_params \\ %{}) do
+    {:ok, log} = ScenicMcp.InputTrace.stop()
+    {:ok, Map.put(log, :status, "ok")}
+  catch
+    :exit, reason ->
+      {:error, "Input tracer is not available: #{inspect(reason)}"}
+  end
+
+  @doc """
+  Get the input trace log so far, without stopping the trace.
+
+  Returns `{:ok, %{tracing: boolean, events: [...], ...}}` or `{:error, reason}`.
+  """
+  @spec get_input_trace(map()) :: {:ok, map()} | {:error, String.t()}
+  def get_input_trace(_params \\ %{}) do
+    {:ok, log} = ScenicMcp.InputTrace.log()
+    {:ok, Map.put(log, :status, "ok")}
+  catch
+    :exit, reason ->
+      {:error, "Input tracer is not available: #{inspect(reason)}"}
+  end
+
   # ========================================================================
   # Tool Handlers (called from server.ex)
   # ========================================================================
@@ -190,22 +254,39 @@ defmodule ScenicMcp.Tools do
   Accepts `%{"x" => number, "y" => number, "button" => string}`.
   Button is optional and defaults to "left".
 
+  Optional params:
+  - `click_count`: Number of clicks in quick succession (2 for a double-click, default: 1)
+  - `modifiers`: Modifier keys held during the click (e.g. `["shift"]`, `["ctrl"]`)
+  - `report_hit`: Include a `hit` map describing the elements under the point before
+    the click (see `element_at/1`)
+
   Returns `{:ok, result_map}` or `{:error, reason}`.
   """
   @spec handle_mouse_click(map()) :: {:ok, map()} | {:error, String.t()}
   def handle_mouse_click(%{"x" => x, "y" => y} = params) do
-    with {:ok, driver_struct} <- driver_state() do
+    with {:ok, click_count} <- click_count(params),
+         {:ok, driver_struct} <- driver_state() do
+      # Hit-test first, so the report shows what the click was aimed at
+      hit = if Map.get(params, "report_hit", false), do: hit_report(x, y)
       button = parse_button(Map.get(params, "button", "left"))
+      modifiers = parse_modifiers(Map.get(params, "modifiers", []))
 
       # Move to position
       Scenic.Driver.send_input(driver_struct, {:cursor_pos, {x, y}})
+
       # Click - Scenic format: {:cursor_button, {button, state, modifiers, coords}}
-      # state: 1 = press, 0 = release
-      Scenic.Driver.send_input(driver_struct, {:cursor_button, {button, 1, [], {x, y}}})
-      Process.sleep(10)
-      Scenic.Driver.send_input(driver_struct, {:cursor_button, {button, 0, [], {x, y}}})
+      # state: 1 = press, 0 = release. Repeated clicks stay well inside the
+      # double-click interval so components see them as one gesture.
+      Enum.each(1..click_count, fn n ->
+        if n > 1, do: Process.sleep(30)
+        Scenic.Driver.send_input(driver_struct, {:cursor_button, {button, 1, modifiers, {x, y}}})
+        Process.sleep(10)
+        Scenic.Driver.send_input(driver_struct, {:cursor_button, {button, 0, modifiers, {x, y}}})
+      end)
 
-      {:ok, %{status: "ok", message: "Mouse clicked at (#{x}, #{y})"}}
+      clicks = if click_count > 1, do: " (#{click_count} clicks)", else: ""
+      result = %{status: "ok", message: "Mouse clicked at (#{x}, #{y})#{clicks}"}
+      {:ok, if(hit, do: Map.put(result, :hit, hit), else: result)}
     end
   end
 
@@ -213,6 +294,13 @@ defmodule ScenicMcp.Tools do
     {:error, "Invalid parameters: must provide 'x' and 'y' coordinates"}
   end
 
+  defp click_count(params) do
+    case Map.get(params, "click_count", 1) do
+      n when is_integer(n) and n >= 1 -> {:ok, n}
+      _ -> {:error, "click_count must be a positive integer"}
+    end
+  end
+
   @doc """
   Send mouse button down (press without release).
   Useful for drag operations.
@@ -281,6 +369,70 @@ defmodule ScenicMcp.Tools do
     {:error, "Invalid parameters: must provide 'dx' and 'dy' scroll deltas"}
   end
 
+  # Each step is a mouse move plus a 10ms pause, so this caps a drag at about ten seconds.
+  # The TS handler extends its command timeout by the same amount; keep the two in step.
+  @max_drag_steps 1000
+
+  @doc """
+  Drag from one point to another with the mouse button held down.
+
+  Each end of the drag can be given either as coordinates or as a semantic
+  element ID (the element's center is used):
+
+    - `from_x`, `from_y` or `from_element_id`
+    - `to_x`, `to_y` or `to_element_id`
+
+  Optional params:
+    - `steps`: number of interpolated mouse moves between the two points (default: 10,
+      clamped to 1..#{@max_drag_steps})
+    - `button`: mouse button to hold (default: "left")
+
+  Example:
+    handle_drag(%{"from_element_id" => "slider_handle", "to_x" => 300, "to_y" => 120})
+  """
+  @spec handle_drag(map()) :: {:ok, map()} | {:error, String.t()}
+  def handle_drag(params) when is_map(params) do
+    button = Map.get(params, "button", "left")
+
+    with {:ok, steps} <- drag_steps(params),
+         {:ok, {from_x, from_y}} <- resolve_point(params, "from"),
+         {:ok, {to_x, to_y}} <- resolve_point(params, "to"),
+         {:ok, _} <- handle_mouse_down(%{"x" => from_x, "y" => from_y, "button" => button}) do
+      Enum.each(1..steps, fn step ->
+        t = step / steps
+
+        handle_mouse_move(%{
+          "x" => from_x + (to_x - from_x) * t,
+          "y" => from_y + (to_y - from_y) * t
+        })
+
+        Process.sleep(10)
+      end)
+
+      with {:ok, _} <- handle_mouse_up(%{"x" => to_x, "y" => to_y, "button" => button}) do
+        {:ok,
+         %{
+           status: "ok",
+           message: "Dragged from (#{from_x}, #{from_y}) to (#{to_x}, #{to_y})",
+           from: %{x: from_x, y: from_y},
+           to: %{x: to_x, y: to_y},
+           steps: steps
+         }}
+      end
+    end
+  end
+
+  def handle_drag(_params) do
+    {:error, "Invalid parameters: must provide drag start and end points"}
+  end
+
+  defp drag_steps(params) do
+    case Map.get(params, "steps", 10) do
+      n when is_integer(n) -> {:ok, n |> max(1) |> min(@max_drag_steps)}
+      _ -> {:error, "steps must be an integer"}
+    end
+  end
+
   def inspect_viewport(args \\ nil) do
     handle_get_scenic_graph(args)
   end
@@ -288,11 +440,23 @@ defmodule ScenicMcp.Tools do
   @doc """
   Get viewport graph information.
 
+  Params:
+  - `mode`: `"summary"` (default) for script counts and the semantic summary, or
+    `"tree"` for the scene hierarchy (see `scene_tree/1`)
+
   Returns `{:ok, result_map}` with viewport structure information,
   or `{:error, reason}` if the viewport cannot be inspected.
   """
   @spec handle_get_scenic_graph(any()) :: {:ok, map()} | {:error, String.t()}
-  def handle_get_scenic_graph(_args \\ nil) do
+  def handle_get_scenic_graph(args \\ nil)
+
+  def handle_get_scenic_graph(%{"mode" => "tree"} = args), do: scene_tree(args)
+
+  def handle_get_scenic_graph(%{"mode" => mode}) when mode not in [nil, "summary"] do
+    {:error, "Invalid mode '#{mode}': must be 'summary' or 'tree'"}
+  end
+
+  def handle_get_scenic_graph(_args) do
     with {:ok, vp_state} <- viewport_state() do
       case vp_state do
         %{script_table: script_table} = state when script_table != nil ->
@@ -321,6 +485,399 @@ defmodule ScenicMcp.Tools do
     end
   end
 
+  @doc """
+  Get one compiled script from the viewport's script table.
+
+  Params:
+  - `id`: The script ID, as reported by `script_versions/1`
+
+  Returns `{:ok, %{id: id, ops: [...]}}` with each draw operation rendered as a
+  string, or `{:error, reason}` if the script does not exist.
+  """
+  @spec get_script(map()) :: {:ok, map()} | {:error, String.t()}
+  def get_script(%{"id" => id}) when is_binary(id) do
+    with {:ok, script_table} <- script_table() do
+      script_table
+      |> :ets.tab2list()
+      |> Enum.find(fn entry -> script_id_string(elem(entry, 0)) == id end)
+      |> case do
+        nil ->
+          {:error, "Script '#{id}' not found"}
+
+        entry ->
+          ops = List.wrap(elem(entry, 1))
+          {:ok, %{status: "ok", id: id, op_count: length(ops), ops: sanitize_for_json(ops)}}
+      end
+    end
+  end
+
+  def get_script(_params) do
+    {:error, "Invalid parameters: must provide 'id' parameter"}
+  end
+
+  @doc """
+  Fingerprint every script and the semantic table.
+
+  The TypeScript side polls this cheaply to notice when the rendered UI changes
+  and notify MCP resource subscribers.
+
+  Returns `{:ok, %{scripts: %{id => hash}, semantic: hash | nil}}` or `{:error, reason}`.
+  """
+  @spec script_versions(map()) :: {:ok, map()} | {:error, String.t()}
+  def script_versions(_params \\ %{}) do
+    with {:ok, vp_state} <- viewport_state(),
+         {:ok, script_table} <- script_table(vp_state) do
+      scripts =
+        script_table
+        |> :ets.tab2list()
+        |> Map.new(fn entry -> {script_id_string(elem(entry, 0)), :erlang.phash2(elem(entry, 1))} end)
+
+      semantic =
+        case Map.get(vp_state, :semantic_table) do
+          nil -> nil
+          semantic_table -> :erlang.phash2(:ets.tab2list(semantic_table))
+        end
+
+      {:ok, %{status: "ok", scripts: scripts, semantic: semantic}}
+    end
+  end
+
+  defp script_table do
+    with {:ok, vp_state} <- viewport_state() do
+      script_table(vp_state)
+    end
+  end
+
+  defp script_table(%{script_table: script_table}) when script_table != nil, do: {:ok, script_table}
+  defp script_table(_vp_state), do: {:error, "No script table found in viewport state"}
+
+  # Script ids are usually strings already; anything else is identified by its inspect form
+  defp script_id_string(id) when is_binary(id), do: id
+  defp script_id_string(id), do: inspect(id)
+
+  @doc """
+  Get the semantic table as a flat list of elements.
+
+  Returns `{:ok, %{count: n, elements: [...], summary: string}}` or `{:error, reason}`.
+  """
+  @spec get_semantic_table(map()) :: {:ok, map()} | {:error, String.t()}
+  def get_semantic_table(_params \\ %{}) do
+    with {:ok, vp_state} <- viewport_state() do
+      {:ok, Map.put(build_semantic_description(Map.get(vp_state, :semantic_table)), :status, "ok")}
+    end
+  end
+
+  @identity_matrix {1, 0, 0, 1, 0, 0}
+  @default_font_size 24
+
+  @doc """
+  Build the scene graph as a tree, starting from the root script.
+
+  Compiled scripts are walked in draw order: `push_state`/`pop_state` pairs become
+  groups, `{:script, id}` references expand into the referenced script (components
+  and child scenes), and draw ops become primitive nodes. A group holding a single
+  primitive is folded into it, so each primitive carries its own transforms.
+
+  Every node has a `type` (`"script"`, `"group"`, `"rect"`, `"text"`, ...), a `path`
+  (dotted child indexes from the root, e.g. `"0.2.1"`), its local `transforms`
+  (`translate`, `scale`, `rotate`, `matrix`), absolute `bounds` and `children`.
+  Script nodes use their script id as `id`; other nodes take the id of the semantic
+  element whose screen bounds match theirs, if any. Text nodes carry their `text`;
+  their bounds are estimated from the font size, as font metrics are not available.
+
+  Params:
+  - `root`: Only return the subtree under the node with this id or path
+  - `max_depth`: Levels to include below the root (1 = the root nodes only); deeper
+    nodes are dropped and counted in `hidden_children`
+
+  Returns `{:ok, %{node_count: n, nodes: [...]}}` or `{:error, reason}`.
+  """
+  @spec scene_tree(map()) :: {:ok, map()} | {:error, String.t()}
+  def scene_tree(params) do
+    root = Map.get(params, "root")
+    max_depth = Map.get(params, "max_depth")
+
+    with :ok <- validate_max_depth(max_depth),
+         {:ok, script_table} <- script_table() do
+      scripts =
+        script_table
+        |> :ets.tab2list()
+        |> Map.new(fn entry -> {elem(entry, 0), List.wrap(elem(entry, 1))} end)
+
+      state = %{matrix: @identity_matrix, font_size: @default_font_size}
+
+      {nodes, _semantic} =
+        scripts
+        |> top_level_scripts()
+        |> Enum.map(&script_node(&1, scripts, state, MapSet.new()))
+        |> finalize_nodes(nil, semantic_bounds())
+
+      case select_subtree(nodes, root) do
+        nil ->
+          {:error, "No node with id or path '#{root}' in the scene tree"}
+
+        selected ->
+          {:ok,
+           %{
+             status: "ok",
+             mode: "tree",
+             root: root,
+             max_depth: max_depth,
+             node_count: count_nodes(selected),
+             nodes: Enum.map(selected, &limit_depth(&1, max_depth, 1))
+           }}
+      end
+    end
+  rescue
+    error -> {:error, "Failed to build scene tree: #{Exception.message(error)}"}
+  end
+
+  defp validate_max_depth(nil), do: :ok
+  defp validate_max_depth(depth) when is_integer(depth) and depth > 0, do: :ok
+  defp validate_max_depth(_depth), do: {:error, "Invalid parameters: 'max_depth' must be a positive integer"}
+
+  # The viewport's root script, or every script nothing else references
+  defp top_level_scripts(scripts) do
+    case Enum.filter(Map.keys(scripts), &(&1 in [:_root_, "_root_"])) do
+      [] ->
+        referenced =
+          scripts
+          |> Map.values()
+          |> List.flatten()
+          |> Enum.flat_map(fn
+            {:script, id} -> [id]
+            _ -> []
+          end)
+          |> MapSet.new()
+
+        scripts
+        |> Map.keys()
+        |> Enum.reject(&MapSet.member?(referenced, &1))
+        |> Enum.sort_by(&script_id_string/1)
+
+      roots ->
+        roots
+    end
+  end
+
+  defp script_node(id, scripts, state, visited) do
+    {children, transforms} =
+      case Map.fetch(scripts, id) do
+        {:ok, ops} ->
+          # Guard against scripts that (indirectly) reference themselves
+          if MapSet.member?(visited, id),
+            do: {[], %{}},
+            else: build_nodes(nest_ops(ops), state, scripts, MapSet.put(visited, id))
+
+        :error ->
+          {[], %{}}
+      end
+
+    tree_node("script", script_id_string(id), transforms, union_bounds(children), nil, children)
+  end
+
+  defp group_node(items, state, scripts, visited) do
+    {children, transforms} = build_nodes(items, state, scripts, visited)
+
+    case children do
+      [] -> nil
+      # A primitive compiles to push_state, its transforms, its draw op and pop_state
+      [%{transforms: own} = only] when map_size(own) == 0 -> %{only | transforms: transforms}
+      _ -> tree_node("group", nil, transforms, union_bounds(children), nil, children)
+    end
+  end
+
+  defp tree_node(type, id, transforms, bounds, text, children) do
+    %{type: type, id: id, transforms: transforms, bounds: bounds, text: text, children: children}
+  end
+
+  # Split a flat op list into nested {:group, ops} items at push_state/pop_state
+  defp nest_ops(ops) do
+    case nest_ops(ops, []) do
+      {items, []} -> items
+      {items, rest} -> items ++ nest_ops(rest)
+    end
+  end
+
+  defp nest_ops([], acc), do: {Enum.reverse(acc), []}
+  defp nest_ops([:pop_state | rest], acc), do: {Enum.reverse(acc), rest}
+  defp nest_ops([:pop_push_state | rest], acc), do: {Enum.reverse(acc), [:push_state | rest]}
+
+  defp nest_ops([:push_state | rest], acc) do
+    {children, rest} = nest_ops(rest, [])
+    nest_ops(rest, [{:group, children} | acc])
+  end
+
+  defp nest_ops([op | rest], acc), do: nest_ops(rest, [op | acc])
+
+  # Returns the nodes drawn by `items` and the transforms set directly among them
+  defp build_nodes(items, state, scripts, visited) do
+    {nodes, _state, transforms} =
+      Enum.reduce(items, {[], state, %{}}, fn item, {nodes, state, transforms} ->
+        case item do
+          {:group, group_items} ->
+            {[group_node(group_items, state, scripts, visited) | nodes], state, transforms}
+
+          {:script, id} ->
+            {[script_node(id, scripts, state, visited) | nodes], state, transforms}
+
+          {:font_size, size} when is_number(size) ->
+            {nodes, %{state | font_size: size}, transforms}
+
+          op ->
+            case {transform_op(op), draw_op(op, state.font_size)} do
+              {{name, value, matrix}, _} ->
+                {nodes, %{state | matrix: multiply(state.matrix, matrix)}, Map.put(transforms, name, value)}
+
+              {nil, {type, local, text}} ->
+                bounds = if local, do: transform_box(state.matrix, local)
+                {[tree_node(type, nil, %{}, bounds, text, []) | nodes], state, transforms}
+
+              {nil, nil} ->
+                {nodes, state, transforms}
+            end
+        end
+      end)
+
+    {nodes |> Enum.reject(&is_nil/1) |> Enum.reverse(), transforms}
+  end
+
+  defp transform_op({:translate, {x, y}}), do: {:translate, [x, y], {1, 0, 0, 1, x, y}}
+  defp transform_op({:scale, {x, y}}), do: {:scale, [x, y], {x, 0, 0, y, 0, 0}}
+  defp transform_op({:scale, s}) when is_number(s), do: {:scale, [s, s], {s, 0, 0, s, 0, 0}}
+
+  defp transform_op({:rotate, r}) when is_number(r) do
+    {:rotate, r, {:math.cos(r), :math.sin(r), -:math.sin(r), :math.cos(r), 0, 0}}
+  end
+
+  defp transform_op({:transform, {a, b, c, d, e, f}}), do: {:matrix, [a, b, c, d, e, f], {a, b, c, d, e, f}}
+  defp transform_op(_op), do: nil
+
+  # {type, local bounds as {x, y, w, h} or nil, text}
+  defp draw_op({:draw_line, {x0, y0, x1, y1, _}}, _font_size), do: {"line", points_box([{x0, y0}, {x1, y1}]), nil}
+
+  defp draw_op({:draw_triangle, {x0, y0, x1, y1, x2, y2, _}}, _font_size),
+    do: {"triangle", points_box([{x0, y0}, {x1, y1}, {x2, y2}]), nil}
+
+  defp draw_op({:draw_quad, {x0, y0, x1, y1, x2, y2, x3, y3, _}}, _font_size),
+    do: {"quad", points_box([{x0, y0}, {x1, y1}, {x2, y2}, {x3, y3}]), nil}
+
+  defp draw_op({:draw_rect, {w, h, _}}, _font_size), do: {"rect", {0, 0, w, h}, nil}
+  defp draw_op({:draw_rrect, {w, h, _radius, _}}, _font_size), do: {"rrect", {0, 0, w, h}, nil}
+  defp draw_op({:draw_circle, {r, _}}, _font_size), do: {"circle", {-r, -r, 2 * r, 2 * r}, nil}
+  defp draw_op({:draw_ellipse, {r0, r1, _}}, _font_size), do: {"ellipse", {-r0, -r1, 2 * r0, 2 * r1}, nil}
+  defp draw_op({:draw_arc, {r, _angle, _}}, _font_size), do: {"arc", {-r, -r, 2 * r, 2 * r}, nil}
+  defp draw_op({:draw_sector, {r, _angle, _}}, _font_size), do: {"sector", {-r, -r, 2 * r, 2 * r}, nil}
+  defp draw_op({:draw_text, text}, font_size) when is_binary(text), do: {"text", text_box(text, font_size), text}
+  defp draw_op({:draw_text, text, _}, font_size) when is_binary(text), do: {"text", text_box(text, font_size), text}
+  defp draw_op({:draw_sprites, _}, _font_size), do: {"sprites", nil, nil}
+  defp draw_op({:draw_path, _}, _font_size), do: {"path", nil, nil}
+  defp draw_op(_op, _font_size), do: nil
+
+  # Text is drawn on an alphabetic baseline at the origin; the width is a rough average
+  defp text_box(text, font_size) do
+    {0, -0.8 * font_size, 0.6 * font_size * String.length(text), font_size}
+  end
+
+  defp points_box(points) do
+    {xs, ys} = Enum.unzip(points)
+    {Enum.min(xs), Enum.min(ys), Enum.max(xs) - Enum.min(xs), Enum.max(ys) - Enum.min(ys)}
+  end
+
+  defp multiply({a, b, c, d, e, f}, {na, nb, nc, nd, ne, nf}) do
+    {a * na + c * nb, b * na + d * nb, a * nc + c * nd, b * nc + d * nd, a * ne + c * nf + e, b * ne + d * nf + f}
+  end
+
+  defp transform_box({a, b, c, d, e, f}, {x, y, w, h}) do
+    [{x, y}, {x + w, y}, {x, y + h}, {x + w, y + h}]
+    |> Enum.map(fn {px, py} -> {a * px + c * py + e, b * px + d * py + f} end)
+    |> points_box()
+    |> to_bounds()
+  end
+
+  defp union_bounds(nodes) do
+    case nodes |> Enum.map(& &1.bounds) |> Enum.reject(&is_nil/1) do
+      [] ->
+        nil
+
+      bounds ->
+        left = bounds |> Enum.map(& &1.left) |> Enum.min()
+        top = bounds |> Enum.map(& &1.top) |> Enum.min()
+        right = bounds |> Enum.map(&(&1.left + &1.width)) |> Enum.max()
+        bottom = bounds |> Enum.map(&(&1.top + &1.height)) |> Enum.max()
+        to_bounds({left, top, right - left, bottom - top})
+    end
+  end
+
+  defp to_bounds({x, y, w, h}) do
+    %{left: round_coord(x), top: round_coord(y), width: round_coord(w), height: round_coord(h)}
+  end
+
+  defp round_coord(value) when is_float(value), do: Float.round(value, 2)
+  defp round_coord(value), do: value
+
+  # Number the nodes by path and give unnamed ones the id of a semantic element with matching bounds
+  defp finalize_nodes(nodes, prefix, semantic) do
+    nodes
+    |> Enum.with_index()
+    |> Enum.map_reduce(semantic, fn {node, index}, semantic ->
+      path = if prefix, do: "#{prefix}.#{index}", else: "#{index}"
+      {id, semantic} = if node.id, do: {node.id, semantic}, else: take_semantic_id(node.bounds, semantic)
+      {children, semantic} = finalize_nodes(node.children, path, semantic)
+      {Map.merge(node, %{id: id, path: path, children: children}), semantic}
+    end)
+  end
+
+  defp semantic_bounds do
+    case find_clickable_elements(%{"all" => true}) do
+      {:ok, %{elements: elements}} ->
+        for %{"id" => id, "bounds" => %{"left" => l, "top" => t, "width" => w, "height" => h}} <- elements,
+            do: {id, {l, t, w, h}}
+
+      _ ->
+        []
+    end
+  rescue
+    _ -> []
+  end
+
+  defp take_semantic_id(nil, semantic), do: {nil, semantic}
+
+  defp take_semantic_id(bounds, semantic) do
+    case Enum.find(semantic, fn {_id, {l, t, w, h}} ->
+           Enum.all?(
+             [{bounds.left, l}, {bounds.top, t}, {bounds.width, w}, {bounds.height, h}],
+             fn {a, b} -> abs(a - b) <= 0.5 end
+           )
+         end) do
+      nil -> {nil, semantic}
+      {id, _} = match -> {id, List.delete(semantic, match)}
+    end
+  end
+
+  defp select_subtree(nodes, nil), do: nodes
+
+  defp select_subtree(nodes, root) do
+    wanted = String.trim_leading(root, ":")
+
+    Enum.find_value(nodes, fn node ->
+      if node.path == root or (node.id && String.trim_leading(node.id, ":") == wanted),
+        do: [node],
+        else: select_subtree(node.children, root)
+    end)
+  end
+
+  defp count_nodes(nodes), do: Enum.reduce(nodes, 0, fn node, acc -> acc + 1 + count_nodes(node.children) end)
+
+  defp limit_depth(%{children: [_ | _] = children} = node, max_depth, depth)
+       when is_integer(max_depth) and depth >= max_depth do
+    node |> Map.put(:children, []) |> Map.put(:hidden_children, count_nodes(children))
+  end
+
+  defp limit_depth(node, max_depth, depth) do
+    %{node | children: Enum.map(node.children, &limit_depth(&1, max_depth, depth + 1))}
+  end
+
   @doc """
   Find clickable elements in the current viewport.
 
@@ -329,6 +886,11 @@ defmodule ScenicMcp.Tools do
 
   Optional params:
   - `filter`: Filter by element ID (matches against atom keys)
+  - `all`: Include elements that are not clickable (default: false). Used by the
+    TypeScript selector engine, which needs containers to resolve ancestry.
+
+  Each element reports the `scene` it was registered in and its `parent` id (when
+  the semantic entry has one), so callers can reconstruct the component graph.
   """
   @spec find_clickable_elements(map()) :: {:ok, map()} | {:error, String.t()}
   def find_clickable_elements(params) do
@@ -377,13 +939,15 @@ defmodule ScenicMcp.Tools do
               {id, entry}
             end)
 
+          scenes = Map.new(all_entries, fn {id, _entry, scene_name} -> {id, scene_name} end)
           filter = Map.get(params, "filter")
+          include_all = Map.get(params, "all", false)
 
           clickable_elements =
             flat_elements
             |> Enum.filter(fn {_id, entry} ->
               # Phase 1: clickable flag is directly on the Entry struct
-              Map.get(entry, :clickable, false)
+              include_all or Map.get(entry, :clickable, false)
             end)
             |> maybe_filter_by_id(filter)
             |> Enum.map(fn {id, entry} ->
@@ -422,7 +986,9 @@ defmodule ScenicMcp.Tools do
                 clickable: entry.clickable,
                 label: entry.label,
                 role: entry.role,
-                z_index: entry.z_index
+                z_index: entry.z_index,
+                scene: inspect(Map.get(scenes, id)),
+                parent: entry |> Map.get(:parent_id) |> inspect_if_present()
               }
               |> sanitize_for_json()
             end)
@@ -437,6 +1003,74 @@ defmodule ScenicMcp.Tools do
     end
   end
 
+  @doc """
+  Hit-test a screen point against the semantic elements.
+
+  Params: `%{"x" => number, "y" => number}`
+
+  Returns `{:ok, result_map}` with every element whose bounds contain the point in
+  `elements`, topmost first (highest `z_index`, then the smallest element, since
+  nested elements sit on top of their containers), the first of them as `topmost`,
+  and - when no clickable element is under the point - the `nearest_clickable`
+  element with its `distance` in pixels. Returns `{:error, reason}` if the semantic
+  table cannot be read.
+  """
+  @spec element_at(map()) :: {:ok, map()} | {:error, String.t()}
+  def element_at(%{"x" => x, "y" => y}) when is_number(x) and is_number(y) do
+    with {:ok, %{elements: elements}} <- find_clickable_elements(%{"all" => true}) do
+      with_bounds = Enum.filter(elements, &match?(%{"bounds" => %{}}, &1))
+
+      hits =
+        with_bounds
+        |> Enum.filter(&(distance_to_bounds(&1["bounds"], x, y) == 0))
+        |> Enum.sort_by(fn element -> {-z_index(element), bounds_area(element["bounds"])} end)
+
+      nearest =
+        if Enum.any?(hits, & &1["clickable"]) do
+          nil
+        else
+          with_bounds
+          |> Enum.filter(& &1["clickable"])
+          |> Enum.map(fn element -> %{element: element, distance: distance_to_bounds(element["bounds"], x, y)} end)
+          |> Enum.min_by(& &1.distance, fn -> nil end)
+        end
+
+      {:ok,
+       %{
+         status: "ok",
+         x: x,
+         y: y,
+         topmost: List.first(hits),
+         count: length(hits),
+         elements: hits,
+         nearest_clickable: nearest
+       }}
+    end
+  end
+
+  def element_at(_params) do
+    {:error, "Invalid parameters: must provide 'x' and 'y' coordinates"}
+  end
+
+  defp hit_report(x, y) do
+    case element_at(%{"x" => x, "y" => y}) do
+      {:ok, result} -> Map.delete(result, :status)
+      {:error, reason} -> %{error: reason}
+    end
+  end
+
+  # 0 when the point is inside (or on the edge of) the bounds
+  defp distance_to_bounds(%{"left" => left, "top" => top, "width" => width, "height" => height}, x, y) do
+    dx = Enum.max([left - x, 0, x - (left + width)])
+    dy = Enum.max([top - y, 0, y - (top + height)])
+    Float.round(:math.sqrt(dx * dx + dy * dy), 1)
+  end
+
+  defp bounds_area(%{"width" => width, "height" => height}), do: width * height
+
+  defp z_index(%{"z_index" => z}) when is_number(z), do: z
+  defp z_index(_element), do: 0
+
   @doc """
   Click on an element by its semantic ID.
 
@@ -446,35 +1080,47 @@ defmodule ScenicMcp.Tools do
   Params:
   - `element_id`: The semantic ID to click (string or atom, e.g., ":load_component_button")
 
+  Optional params:
+  - `button`: "left" (default), "right" or "middle"
+  - `click_count`: 2 for a double-click, 3 for a triple-click (default: 1)
+  - `offset`: Where to click relative to the element's top-left corner instead of its
+    center, as `%{"x" => ..., "y" => ...}`. Each value is pixels (`12`) or a percentage
+    of the element's size (`"10%"`); an omitted axis stays centered.
+  - `modifiers`: Modifier keys held during the click (e.g. `["shift"]` for range selection)
+
   Returns `{:ok, result_map}` with click details, or `{:error, reason}` if element not found.
   """
   @spec click_element(map()) :: {:ok, map()} | {:error, String.t()}
-  def click_element(%{"element_id" => element_id}) when is_binary(element_id) do
+  def click_element(%{"element_id" => element_id} = params) when is_binary(element_id) do
     with {:ok, result} <- find_clickable_elements(%{"filter" => element_id}),
          element <- List.first(result.elements) do
       if element do
-        # Handle both atom and string keys (after sanitization)
-        center = get_in_sanitized(element, [:center]) || get_in_sanitized(element, ["center"])
-
-        case center do
-          %{"x" => x, "y" => y} when is_number(x) and is_number(y) ->
-            # Click at the element's center
-            case handle_mouse_click(%{"x" => x, "y" => y}) do
+        case element_point(element, Map.get(params, "offset")) do
+          {:ok, {x, y}} ->
+            click_params =
+              params
+              |> Map.take(["button", "click_count", "modifiers"])
+              |> Map.merge(%{"x" => x, "y" => y})
+
+            case handle_mouse_click(click_params) do
               {:ok, _click_result} ->
                 {:ok,
                  %{
                    status: "ok",
                    message: "Clicked element #{element_id}",
                    element: element,
-                   clicked_at: %{x: x, y: y}
+                   clicked_at: %{x: x, y: y},
+                   button: Map.get(params, "button", "left"),
+                   click_count: Map.get(params, "click_count", 1),
+                   modifiers: Map.get(params, "modifiers", [])
                  }}
 
               {:error, reason} ->
                 {:error, "Failed to click element: #{reason}"}
             end
 
-          _ ->
-            {:error, "Element found but has no valid center coordinates: #{inspect(center)}"}
+          {:error, reason} ->
+            {:error, reason}
         end
       else
         {:error, "Element '#{element_id}' not found or not clickable"}
@@ -494,19 +1140,18 @@ defmodule ScenicMcp.Tools do
 
   Params:
   - `element_id`: The semantic ID to hover over (string or atom)
+  - `offset` (optional): Hover relative to the element's top-left corner instead of its
+    center, in pixels or percentages (see `click_element/1`)
 
   Returns `{:ok, result_map}` with hover details, or `{:error, reason}` if element not found.
   """
   @spec hover_element(map()) :: {:ok, map()} | {:error, String.t()}
-  def hover_element(%{"element_id" => element_id}) when is_binary(element_id) do
+  def hover_element(%{"element_id" => element_id} = params) when is_binary(element_id) do
     with {:ok, result} <- find_clickable_elements(%{"filter" => element_id}),
          element <- List.first(result.elements) do
       if element do
-        # Handle both atom and string keys (after sanitization)
-        center = get_in_sanitized(element, [:center]) || get_in_sanitized(element, ["center"])
-
-        case center do
-          %{"x" => x, "y" => y} when is_number(x) and is_number(y) ->
+        case element_point(element, Map.get(params, "offset")) do
+          {:ok, {x, y}} ->
             case handle_mouse_move(%{"x" => x, "y" => y}) do
               {:ok, _move_result} ->
                 {:ok,
@@ -521,8 +1166,8 @@ defmodule ScenicMcp.Tools do
                 {:error, "Failed to move mouse to element: #{reason}"}
             end
 
-          _ ->
-            {:error, "Element found but has no valid center coordinates: #{inspect(center)}"}
+          {:error, reason} ->
+            {:error, reason}
         end
       else
         {:error, "Element '#{element_id}' not found"}
@@ -534,6 +1179,116 @@ defmodule ScenicMcp.Tools do
     {:error, "Invalid parameters: must provide 'element_id' parameter"}
   end
 
+  @doc """
+  Check whether text is currently rendered anywhere in the viewport.
+
+  Delegates to `ScenicMcp.Query.text_visible?/1`. Used by the TypeScript
+  `wait_for` tool to poll until text appears or disappears.
+
+  Params:
+  - `text`: The text to search for
+
+  Returns `{:ok, %{visible: boolean}}` or `{:error, reason}`.
+  """
+  @spec text_visible(map()) :: {:ok, map()} | {:error, String.t()}
+  def text_visible(%{"text" => text}) when is_binary(text) do
+    {:ok, %{status: "ok", text: text, visible: ScenicMcp.Query.text_visible?(text)}}
+  end
+
+  def text_visible(_params) do
+    {:error, "Invalid parameters: must provide 'text' parameter"}
+  end
+
+  @doc """
+  Get the text currently rendered in the viewport.
+
+  Wraps the read-only queries in `ScenicMcp.Query`.
+
+  Params:
+  - `mode`: One of:
+    - `"flat"` (default) - all text joined into one string, plus the individual items
+    - `"positioned"` - each text primitive with its x/y position
+    - `"lines"` - text grouped into lines by y-coordinate
+  - `y_tolerance`: Max y-difference for text to share a line in `"lines"` mode (default: 5)
+
+  Returns `{:ok, result_map}` including rendering stats, or `{:error, reason}`.
+  """
+  @spec get_rendered_text(map()) :: {:ok, map()} | {:error, String.t()}
+  def get_rendered_text(params) do
+    mode = Map.get(params, "mode", "flat")
+    stats = ScenicMcp.Query.stats()
+
+    case mode do
+      "flat" ->
+        {:ok,
+         %{
+           status: "ok",
+           mode: mode,
+           text: ScenicMcp.Query.rendered_text(),
+           items: ScenicMcp.Query.rendered_text_list(),
+           stats: stats
+         }}
+
+      "positioned" ->
+        {:ok, %{status: "ok", mode: mode, items: ScenicMcp.Query.text_with_positions(), stats: stats}}
+
+      "lines" ->
+        lines =
+          params
+          |> Map.get("y_tolerance", 5)
+          |> ScenicMcp.Query.text_by_lines()
+          |> Enum.map(fn {y, text} -> %{y: y, text: text} end)
+
+        {:ok, %{status: "ok", mode: mode, lines: lines, stats: stats}}
+
+      other ->
+        {:error, "Invalid mode '#{other}': must be one of 'flat', 'positioned' or 'lines'"}
+    end
+  end
+
+  @doc """
+  Assert facts about the rendered text.
+
+  Every provided param adds a check; the assertion passes only if all checks pass.
+
+  Params:
+  - `text`: Text to look for
+  - `visible`: Whether `text` should be visible anywhere on screen (default: true)
+  - `line`: 1-indexed line number `text` should appear on
+  - `wraps`: Whether `text` should be rendered across more than one line
+  - `line_count`: Expected number of rendered text lines
+
+  Returns `{:ok, %{passed: boolean, checks: [...]}}` or `{:error, reason}`.
+  """
+  @spec assert_text(map()) :: {:ok, map()} | {:error, String.t()}
+  def assert_text(params) do
+    text = Map.get(params, "text")
+
+    checks =
+      [
+        is_binary(text) &&
+          check("visible", Map.get(params, "visible", true), ScenicMcp.Query.text_visible?(text)),
+        is_binary(text) && is_integer(params["line"]) && params["line"] > 0 &&
+          check("on_line_#{params["line"]}", true, ScenicMcp.Query.text_on_line?(params["line"], text)),
+        is_binary(text) && is_boolean(params["wraps"]) &&
+          check("wraps", params["wraps"], ScenicMcp.Query.text_wraps?(text)),
+        is_integer(params["line_count"]) &&
+          check("line_count", params["line_count"], ScenicMcp.Query.line_count())
+      ]
+      |> Enum.filter(&is_map/1)
+
+    if checks == [] do
+      {:error, "Invalid parameters: must provide 'text' and/or 'line_count' to assert on"}
+    else
+      {:ok,
+       %{
+         status: "ok",
+         passed: Enum.all?(checks, & &1.passed),
+         checks: checks
+       }}
+    end
+  end
+
   @doc """
   Capture a screenshot of the Scenic application.
 
@@ -599,6 +1354,86 @@ defmodule ScenicMcp.Tools do
   # Helper Functions
   # ========================================================================
 
+  defp check(name, expected, actual) do
+    %{check: name, expected: expected, actual: actual, passed: expected == actual}
+  end
+
+  # Resolve one end of a drag ("from" or "to") into coordinates, either from
+  # explicit `<prefix>_x`/`<prefix>_y` params or from a semantic element's center.
+  defp resolve_point(params, prefix) do
+    element_id = Map.get(params, prefix <> "_element_id")
+    x = Map.get(params, prefix <> "_x")
+    y = Map.get(params, prefix <> "_y")
+
+    cond do
+      is_binary(element_id) ->
+        element_center(element_id)
+
+      is_number(x) and is_number(y) ->
+        {:ok, {x, y}}
+
+      true ->
+        {:error,
+         "Invalid parameters: must provide '#{prefix}_x' and '#{prefix}_y' or '#{prefix}_element_id'"}
+    end
+  end
+
+  # The point to act on within an element: its center, or an offset from its
+  # top-left corner given in pixels or as a percentage of its size.
+  defp element_point(element, nil) do
+    # Handle both atom and string keys (after sanitization)
+    case get_in_sanitized(element, [:center]) do
+      %{"x" => x, "y" => y} when is_number(x) and is_number(y) -> {:ok, {x, y}}
+      center -> {:error, "Element found but has no valid center coordinates: #{inspect(center)}"}
+    end
+  end
+
+  defp element_point(element, offset) when is_map(offset) do
+    with {:ok, {center_x, center_y}} <- element_point(element, nil) do
+      case get_in_sanitized(element, [:bounds]) do
+        %{"left" => left, "top" => top, "width" => width, "height" => height} ->
+          with {:ok, x} <- offset_coordinate(Map.get(offset, "x"), left, width, center_x),
+               {:ok, y} <- offset_coordinate(Map.get(offset, "y"), top, height, center_y) do
+            {:ok, {x, y}}
+          end
+
+        bounds ->
+          {:error, "Element found but has no bounds to apply an offset to: #{inspect(bounds)}"}
+      end
+    end
+  end
+
+  defp element_point(_element, offset),
+    do: {:error, "Invalid offset #{inspect(offset)}: expected %{\"x\" => ..., \"y\" => ...}"}
+
+  defp offset_coordinate(nil, _start, _size, center), do: {:ok, center}
+  defp offset_coordinate(pixels, start, _size, _center) when is_number(pixels), do: {:ok, start + pixels}
+
+  defp offset_coordinate(value, start, size, _center) when is_binary(value) do
+    case Float.parse(String.trim(value)) do
+      {percent, "%"} -> {:ok, start + size * percent / 100}
+      _ -> {:error, "Invalid offset #{inspect(value)}: expected pixels or a percentage like \"10%\""}
+    end
+  end
+
+  defp offset_coordinate(value, _start, _size, _center),
+    do: {:error, "Invalid offset #{inspect(value)}: expected pixels or a percentage like \"10%\""}
+
+  defp element_center(element_id) do
+    with {:ok, result} <- find_clickable_elements(%{"filter" => element_id}) do
+      case List.first(result.elements) do
+        nil ->
+          {:error, "Element '#{element_id}' not found"}
+
+        element ->
+          case get_in_sanitized(element, [:center]) do
+            %{"x" => x, "y" => y} when is_number(x) and is_number(y) -> {:ok, {x, y}}
+            center -> {:error, "Element found but has no valid center coordinates: #{inspect(center)}"}
+          end
+      end
+    end
+  end
+
   defp get_driver_from_viewport(vp_pid) do
     case :sys.get_state(vp_pid) do
       %{driver_pids: [driver_pid | _]} ->
@@ -1269,6 +2104,9 @@ defmodule ScenicMcp.Tools do
 
   defp get_in_sanitized(_, _), do: nil
 
+  defp inspect_if_present(nil), do: nil
+  defp inspect_if_present(value), do: inspect(value)
+
   # Recursively sanitize data structures to be JSON-encodable
   # Converts tuples, atoms, and other non-JSON types to strings/basic types
   defp sanitize_for_json(data) when is_map(data) do
@@ -1302,8 +2140,8 @@ defmodule ScenicMcp.Tools do
   end
 
   # This one here is the real milk in the tea! Here we map what actions we receive to tool calls
-  def handle_action(%{"action" => "inspect_viewport"} = _actn) do
-    ScenicMcp.Tools.handle_get_scenic_graph()
+  def handle_action(%{"action" => "inspect_viewport"} = actn) do
+    ScenicMcp.Tools.handle_get_scenic_graph(actn)
   end
 
   def handle_action(%{"action" => "send_keys"} = actn) do
@@ -1318,6 +2156,46 @@ defmodule ScenicMcp.Tools do
     ScenicMcp.Tools.handle_mouse_click(actn)
   end
 
+  def handle_action(%{"action" => "send_mouse_down"} = actn) do
+    ScenicMcp.Tools.handle_mouse_down(actn)
+  end
+
+  def handle_action(%{"action" => "send_mouse_up"} = actn) do
+    ScenicMcp.Tools.handle_mouse_up(actn)
+  end
+
+  def handle_action(%{"action" => "send_scroll"} = actn) do
+    ScenicMcp.Tools.handle_scroll(actn)
+  end
+
+  def handle_action(%{"action" => "drag"} = actn) do
+    ScenicMcp.Tools.handle_drag(actn)
+  end
+
+  def handle_action(%{"action" => "text_visible"} = actn) do
+    ScenicMcp.Tools.text_visible(actn)
+  end
+
+  def handle_action(%{"action" => "get_script"} = actn) do
+    ScenicMcp.Tools.get_script(actn)
+  end
+
+  def handle_action(%{"action" => "script_versions"} = actn) do
+    ScenicMcp.Tools.script_versions(actn)
+  end
+
+  def handle_action(%{"action" => "get_semantic_table"} = actn) do
+    ScenicMcp.Tools.get_semantic_table(actn)
+  end
+
+  def handle_action(%{"action" => "get_rendered_text"} = actn) do
+    ScenicMcp.Tools.get_rendered_text(actn)
+  end
+
+  def handle_action(%{"action" => "assert_text"} = actn) do
+    ScenicMcp.Tools.assert_text(actn)
+  end
+
   def handle_action(%{"action" => "take_screenshot"} = actn) do
     ScenicMcp.Tools.take_screenshot(actn)
   end
@@ -1326,6 +2204,22 @@ defmodule ScenicMcp.Tools do
     ScenicMcp.Tools.find_clickable_elements(actn)
   end
 
+  def handle_action(%{"action" => "start_input_trace"} = actn) do
+    ScenicMcp.Tools.start_input_trace(actn)
+  end
+
+  def handle_action(%{"action" => "stop_input_trace"} = actn) do
+    ScenicMcp.Tools.stop_input_trace(actn)
+  end
+
+  def handle_action(%{"action" => "get_input_trace"} = actn) do
+    ScenicMcp.Tools.get_input_trace(actn)
+  end
+
+  def handle_action(%{"action" => "element_at"} = actn) do
+    ScenicMcp.Tools.element_at(actn)
+  end
+
   def handle_action(%{"action" => "click_element"} = actn) do
     ScenicMcp.Tools.click_element(actn)
   end
@@ -16,7 +16,7 @@ defmodule ScenicMcp.MixProject do
 
   def application do
     [
-      extra_applications: [:logger],
+      extra_applications: [:logger, :crypto],
       mod: {ScenicMcp.Application, []}
     ]
   end
@@ -0,0 +1,244 @@
+/**
+ * Audit log for Scenic MCP
+ *
+ * Records every tool call as one JSON line: its arguments, each message it sent to the
+ * app (the exact JSON line) with the raw reply and latency, and its error, so a session
+ * that broke the app can be reconstructed step by step. Security events such as guarded
+ * calls are recorded as their own entries and also echoed to stderr.
+ *
+ * Recent entries are kept in memory; when an audit log file is configured they are also
+ * appended to it, and the file is rotated once it grows past its size limit.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { promises as fs } from 'fs';
+import { ServerConfig } from './config.js';
+import { getActiveSessionName, setBridgeTracer } from './connection.js';
+
+// Longer replies (screenshots, mostly) are cut short so they do not flood the log
+const MAX_REPLY_CHARS = 10000;
+const MAX_MEMORY_ENTRIES = 1000;
+
+export interface BridgeMessage {
+  sent: string;
+  reply: string | null;
+  // Length of the full reply, when it was cut short
+  reply_chars?: number;
+  latency_ms: number;
+  error: string | null;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  event: string;
+  tool?: string;
+  session?: string;
+  error?: string | null;
+  [key: string]: unknown;
+}
+
+export interface ActivityQuery {
+  limit: number;
+  tool?: string;
+  session?: string;
+  errorsOnly?: boolean;
+}
+
+interface ActiveCall {
+  id: number;
+  bridge: BridgeMessage[];
+}
+
+// The tool call whose handler is running, so bridge messages can be attributed to it
+const activeCall = new AsyncLocalStorage<ActiveCall>();
+let nextCallId = 1;
+
+const recentEntries: AuditEntry[] = [];
+
+let auditLogPath: string | null = null;
+let maxBytes = 0;
+let maxFiles = 0;
+let currentSize: number | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+export function configureAuditLog(config: ServerConfig) {
+  auditLogPath = config.auditLog;
+  maxBytes = config.auditLogMaxBytes;
+  maxFiles = config.auditLogFiles;
+  currentSize = null;
+  setBridgeTracer(traceBridgeMessage);
+}
+
+// ========================================================================
+// Recording
+// ========================================================================
+
+/**
+ * Run a tool call and record it, along with every bridge message it sends.
+ * Calls made from inside another call (run_scenario steps) point at it with parent_id.
+ */
+export async function auditToolCall<T extends { isError?: boolean; content?: any[] }>(
+  tool: string,
+  args: any,
+  call: () => Promise<T>
+): Promise<T> {
+  const parent = activeCall.getStore();
+  const current: ActiveCall = { id: nextCallId++, bridge: [] };
+  const session = args?.session ?? getActiveSessionName();
+  const startedAt = Date.now();
+  let error: string | null = null;
+
+  try {
+    const result = await activeCall.run(current, call);
+    if (result.isError) error = resultText(result);
+    return result;
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+    throw e;
+  } finally {
+    writeEntry({
+      timestamp: new Date(startedAt).toISOString(),
+      event: 'tool_call',
+      id: current.id,
+      ...(parent && { parent_id: parent.id }),
+      tool,
+      session,
+      args,
+      latency_ms: Date.now() - startedAt,
+      error,
+      bridge: current.bridge,
+    });
+  }
+}
+
+/**
+ * Record a security event, such as a guarded call and whether a person confirmed it.
+ */
+export function recordAuditEvent(event: Record<string, unknown>) {
+  const call = activeCall.getStore();
+  const entry = {
+    timestamp: new Date().toISOString(),
+    ...event,
+    ...(call && { call_id: call.id }),
+  } as AuditEntry;
+
+  console.error(`[Scenic MCP] audit: ${JSON.stringify(entry)}`);
+  writeEntry(entry);
+}
+
+// Only traffic sent on behalf of a tool call is recorded; background traffic such
+// as resource polling has no call to belong to
+function traceBridgeMessage(session: string, message: string) {
+  const call = activeCall.getStore();
+  const startedAt = Date.now();
+
+  return (reply: string | null, error: string | null) => {
+    if (!call) return;
+
+    const truncated = reply !== null && reply.length > MAX_REPLY_CHARS;
+    call.bridge.push({
+      sent: message,
+      reply: truncated ? reply.slice(0, MAX_REPLY_CHARS) : reply,
+      ...(truncated && { reply_chars: reply.length }),
+      latency_ms: Date.now() - startedAt,
+      error,
+      ...(session !== getActiveSessionName() && { session }),
+    });
+  };
+}
+
+function resultText(result: { content?: any[] }): string {
+  return (result.content ?? [])
+    .filter((c: any) => c.type === 'text')
+    .map((c: any) => c.text)
+    .join('\n');
+}
+
+function writeEntry(entry: AuditEntry) {
+  recentEntries.push(entry);
+  if (recentEntries.length > MAX_MEMORY_ENTRIES) recentEntries.shift();
+
+  if (auditLogPath === null) return;
+  const path = auditLogPath;
+  const line = JSON.stringify(entry) + '\n';
+
+  // Chain the appends so lines land in the order the entries were written
+  pendingWrite = pendingWrite
+    .then(() => appendWithRotation(path, line))
+    .catch((error) => console.error(`[Scenic MCP] Failed to write audit log ${path}: ${error instanceof Error ? error.message : error}`));
+}
+
+async function appendWithRotation(path: string, line: string) {
+  if (currentSize === null) {
+    currentSize = await fs.stat(path).then((stat) => stat.size, () => 0);
+  }
+
+  const bytes = Buffer.byteLength(line);
+  if (currentSize > 0 && currentSize + bytes > maxBytes) {
+    await rotate(path);
+    currentSize = 0;
+  }
+
+  await fs.appendFile(path, line);
+  currentSize += bytes;
+}
+
+// audit.jsonl -> audit.jsonl.1 -> audit.jsonl.2 ..., dropping the oldest
+async function rotate(path: string) {
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    await fs.rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => {
+      // Not rotated that many times yet
+    });
+  }
+  await fs.rename(path, `${path}.1`);
+}
+
+// ========================================================================
+// Querying
+// ========================================================================
+
+/**
+ * Newest matching entries first. Reads the audit log file (rotated files included) when
+ * one is configured, so activity from earlier server runs shows up too.
+ */
+export async function getRecentActivity(query: ActivityQuery): Promise<{ entries: AuditEntry[]; source: string }> {
+  const matches = (entry: AuditEntry) =>
+    (query.tool === undefined || entry.tool === query.tool) &&
+    (query.session === undefined || entry.session === query.session) &&
+    (!query.errorsOnly || Boolean(entry.error));
+
+  if (auditLogPath === null) {
+    return {
+      entries: recentEntries.filter(matches).slice(-query.limit).reverse(),
+      source: 'memory (no audit log file configured)',
+    };
+  }
+
+  // Let queued appends land first
+  await pendingWrite;
+
+  const entries: AuditEntry[] = [];
+  const files = [auditLogPath, ...Array.from({ length: maxFiles }, (_, i) => `${auditLogPath}.${i + 1}`)];
+
+  for (const file of files) {
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch {
+      continue;
+    }
+
+    const lines = text.split('\n').filter((line) => line.trim() !== '').reverse();
+    for (const line of lines) {
+      try {
+        const entry = JSON.parse(line);
+        if (matches(entry)) entries.push(entry);
+      } catch {
+        // A line cut short by a crash mid-write
+      }
+      if (entries.length >= query.limit) return { entries, source: auditLogPath };
+    }
+  }
+
+  return { entries, source: auditLogPath };
+}
@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_CONFIG, loadConfig } from './config.js';
+
+describe('loadConfig', () => {
+  it('uses the defaults when nothing is set', () => {
+    expect(loadConfig([], {})).toEqual(DEFAULT_CONFIG);
+  });
+
+  it('prefers CLI flags over environment variables over defaults', () => {
+    const config = loadConfig(['--host', 'scenic.local', '--timeout-ms=9000'], {
+      SCENIC_MCP_HOST: 'ignored',
+      SCENIC_MCP_TIMEOUT_MS: '100',
+      SCENIC_MCP_RETRIES: '5',
+    });
+
+    expect(config.host).toBe('scenic.local');
+    expect(config.commandTimeoutMs).toBe(9000);
+    expect(config.retries).toBe(5);
+    expect(config.port).toBe(DEFAULT_CONFIG.port);
+  });
+
+  it('splits list options on commas', () => {
+    const config = loadConfig(['--deny-tools', 'drag, send_keys,'], { SCENIC_MCP_GUARD_KEYS: 'ctrl+q' });
+
+    expect(config.denyTools).toEqual(['drag', 'send_keys']);
+    expect(config.guardKeys).toEqual(['ctrl+q']);
+  });
+
+  it('reports every invalid value at once', () => {
+    expect(() =>
+      loadConfig(['--port', '70000', '--retries=0', '--tool-profile', 'admin', '--colour', 'red'], { SCENIC_MCP_HOST: ' ' })
+    ).toThrow(
+      [
+        'Invalid configuration:',
+        '  SCENIC_MCP_HOST must not be empty',
+        '  --port must be an integer between 1 and 65535 (got "70000")',
+        '  --retries must be an integer >= 1 (got "0")',
+        '  --tool-profile must be one of full, read-only (got "admin")',
+        '  Unknown option --colour',
+      ].join('\n')
+    );
+  });
+
+  describe('token file', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scenic-mcp-config-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads the token from the file', () => {
+      const file = path.join(dir, 'token');
+      fs.writeFileSync(file, 's3cret\n');
+
+      expect(loadConfig(['--token-file', file], {}).authToken).toBe('s3cret');
+    });
+
+    it('rejects an empty file', () => {
+      const file = path.join(dir, 'token');
+      fs.writeFileSync(file, '\n');
+
+      expect(() => loadConfig(['--token-file', file], {})).toThrow(`Token file ${file} is empty`);
+    });
+
+    it('rejects a token and a token file from the same source', () => {
+      const file = path.join(dir, 'token');
+      fs.writeFileSync(file, 's3cret\n');
+
+      expect(() => loadConfig(['--token', 'abc', '--token-file', file], {})).toThrow('Set either a token or a token file, not both');
+      expect(() => loadConfig([], { SCENIC_MCP_TOKEN: 'abc', SCENIC_MCP_TOKEN_FILE: file })).toThrow(
+        'Set either a token or a token file, not both'
+      );
+    });
+
+    it('lets the CLI token or token file win over the environment', () => {
+      const file = path.join(dir, 'token');
+      fs.writeFileSync(file, 's3cret\n');
+
+      expect(loadConfig(['--token-file', file], { SCENIC_MCP_TOKEN: 'abc' }).authToken).toBe('s3cret');
+      expect(loadConfig(['--token', 'abc'], { SCENIC_MCP_TOKEN_FILE: file })).toMatchObject({ authToken: 'abc', authTokenFile: null });
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Configuration for Scenic MCP
+ *
+ * Settings come from, in order of precedence: CLI flags (--host, --timeout-ms=8000),
+ * SCENIC_MCP_* environment variables, then the defaults below. Everything is validated
+ * up front so a typo fails at startup instead of surfacing as a confusing timeout later.
+ */
+
+import * as fs from 'fs';
+
+export const TOOL_PROFILES = ['full', 'read-only'] as const;
+export type ToolProfile = (typeof TOOL_PROFILES)[number];
+
+export interface ServerConfig {
+  host: string;
+  port: number;
+  // Unix socket of the default session; replaces host and port when set
+  socketPath: string | null;
+  commandTimeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+  connectionCacheTtlMs: number;
+  tcpCheckTimeoutMs: number;
+  heartbeatIntervalMs: number;
+  heartbeatTimeoutMs: number;
+  // Shared secret sent to the Scenic app before any command; null when it has none
+  authToken: string | null;
+  authTokenFile: string | null;
+  // Which tools are exposed: the profile's tools, narrowed by the allow list, minus the deny list
+  toolProfile: ToolProfile;
+  allowTools: string[] | null;
+  denyTools: string[] | null;
+  // Key chords and element ids that need a person to confirm them
+  guardKeys: string[] | null;
+  guardElements: string[] | null;
+  auditLog: string | null;
+  auditLogMaxBytes: number;
+  auditLogFiles: number;
+}
+
+export const DEFAULT_CONFIG: ServerConfig = {
+  host: 'localhost',
+  port: 9999,
+  socketPath: null,
+  commandTimeoutMs: 5000,
+  retries: 3,
+  retryDelayMs: 500,
+  connectionCacheTtlMs: 2000,
+  tcpCheckTimeoutMs: 1000,
+  heartbeatIntervalMs: 5000,
+  heartbeatTimeoutMs: 2000,
+  authToken: null,
+  authTokenFile: null,
+  toolProfile: 'full',
+  allowTools: null,
+  denyTools: null,
+  guardKeys: ['ctrl+q', 'cmd+q', 'ctrl+w', 'cmd+w', 'alt+f4'],
+  guardElements: null,
+  auditLog: null,
+  auditLogMaxBytes: 10 * 1024 * 1024,
+  auditLogFiles: 5,
+};
+
+// Config fields that hold a T (or null), so an option can only set a field of its own type
+type ConfigKey<T> = { [K in keyof ServerConfig]-?: ServerConfig[K] extends T | null ? K : never }[keyof ServerConfig];
+
+interface OptionBase {
+  flag: string;
+  env: string;
+  min?: number;
+  max?: number;
+  choices?: readonly string[];
+  description: string;
+}
+
+type OptionSpec =
+  | (OptionBase & { type: 'string'; key: ConfigKey<string> })
+  | (OptionBase & { type: 'integer'; key: ConfigKey<number> })
+  | (OptionBase & { type: 'list'; key: ConfigKey<string[]> });
+
+const OPTIONS: OptionSpec[] = [
+  { key: 'host', flag: 'host', env: 'SCENIC_MCP_HOST', type: 'string', description: 'Host the Scenic apps listen on' },
+  { key: 'port', flag: 'port', env: 'SCENIC_MCP_PORT', type: 'integer', min: 1, max: 65535, description: 'Port of the default session' },
+  { key: 'socketPath', flag: 'socket-path', env: 'SCENIC_MCP_SOCKET_PATH', type: 'string', description: 'Unix socket of the default session (instead of host and port)' },
+  { key: 'commandTimeoutMs', flag: 'timeout-ms', env: 'SCENIC_MCP_TIMEOUT_MS', type: 'integer', min: 1, description: 'Timeout for each command sent to the app' },
+  { key: 'retries', flag: 'retries', env: 'SCENIC_MCP_RETRIES', type: 'integer', min: 1, description: 'Attempts per command before giving up' },
+  { key: 'retryDelayMs', flag: 'retry-delay-ms', env: 'SCENIC_MCP_RETRY_DELAY_MS', type: 'integer', min: 0, description: 'Sleep between command attempts' },
+  { key: 'connectionCacheTtlMs', flag: 'connection-cache-ttl-ms', env: 'SCENIC_MCP_CONNECTION_CACHE_TTL_MS', type: 'integer', min: 0, description: 'How long a connection check result is reused' },
+  { key: 'tcpCheckTimeoutMs', flag: 'tcp-check-timeout-ms', env: 'SCENIC_MCP_TCP_CHECK_TIMEOUT_MS', type: 'integer', min: 1, description: 'Timeout for a connection check' },
+  { key: 'heartbeatIntervalMs', flag: 'heartbeat-interval-ms', env: 'SCENIC_MCP_HEARTBEAT_INTERVAL_MS', type: 'integer', min: 100, description: 'Time between heartbeats to a healthy app' },
+  { key: 'heartbeatTimeoutMs', flag: 'heartbeat-timeout-ms', env: 'SCENIC_MCP_HEARTBEAT_TIMEOUT_MS', type: 'integer', min: 1, description: 'Timeout for a heartbeat reply' },
+  { key: 'authToken', flag: 'token', env: 'SCENIC_MCP_TOKEN', type: 'string', description: 'Token the Scenic apps require (prefer the env var or a file)' },
+  { key: 'authTokenFile', flag: 'token-file', env: 'SCENIC_MCP_TOKEN_FILE', type: 'string', description: 'File holding the token' },
+  { key: 'toolProfile', flag: 'tool-profile', env: 'SCENIC_MCP_TOOL_PROFILE', type: 'string', choices: TOOL_PROFILES, description: 'Tools to expose: full, or read-only (inspection, screenshot and status tools)' },
+  { key: 'allowTools', flag: 'allow-tools', env: 'SCENIC_MCP_ALLOW_TOOLS', type: 'list', description: 'Comma-separated tools to expose; all others are disabled' },
+  { key: 'denyTools', flag: 'deny-tools', env: 'SCENIC_MCP_DENY_TOOLS', type: 'list', description: 'Comma-separated tools to disable' },
+  { key: 'guardKeys', flag: 'guard-keys', env: 'SCENIC_MCP_GUARD_KEYS', type: 'list', description: 'Comma-separated key chords that need confirmation, or "none"' },
+  { key: 'guardElements', flag: 'guard-elements', env: 'SCENIC_MCP_GUARD_ELEMENTS', type: 'list', description: 'Comma-separated element ids whose clicks need confirmation' },
+  { key: 'auditLog', flag: 'audit-log', env: 'SCENIC_MCP_AUDIT_LOG', type: 'string', description: 'File to append tool calls, bridge messages and audit events to (JSON lines)' },
+  { key: 'auditLogMaxBytes', flag: 'audit-log-max-bytes', env: 'SCENIC_MCP_AUDIT_LOG_MAX_BYTES', type: 'integer', min: 1024, description: 'Size at which the audit log is rotated' },
+  { key: 'auditLogFiles', flag: 'audit-log-files', env: 'SCENIC_MCP_AUDIT_LOG_FILES', type: 'integer', min: 1, description: 'Rotated audit log files to keep' },
+];
+
+// ========================================================================
+// Loading
+// ========================================================================
+
+export function loadConfig(argv: string[], env: NodeJS.ProcessEnv): ServerConfig {
+  const flags = parseFlags(argv);
+  const config: ServerConfig = { ...DEFAULT_CONFIG };
+  const errors: string[] = [];
+  const sources = new Map<keyof ServerConfig, 'flag' | 'env'>();
+
+  for (const option of OPTIONS) {
+    const fromFlag = flags.get(option.flag);
+    const raw = fromFlag ?? env[option.env];
+    if (raw === undefined) continue;
+
+    const source = fromFlag !== undefined ? `--${option.flag}` : option.env;
+    const value = parseValue(option, raw);
+
+    if (value === undefined) {
+      errors.push(
+        option.type === 'integer'
+          ? option.max !== undefined
+            ? `${source} must be an integer between ${option.min ?? 0} and ${option.max} (got "${raw}")`
+            : `${source} must be an integer >= ${option.min ?? 0} (got "${raw}")`
+          : option.choices
+            ? `${source} must be one of ${option.choices.join(', ')} (got "${raw}")`
+            : `${source} must not be empty`
+      );
+      continue;
+    }
+
+    Object.assign(config, value);
+    sources.set(option.key, fromFlag !== undefined ? 'flag' : 'env');
+    flags.delete(option.flag);
+  }
+
+  for (const flag of flags.keys()) {
+    if (!OPTIONS.some((option) => option.flag === flag)) {
+      errors.push(`Unknown option --${flag}`);
+    }
+  }
+
+  // A token and a token file conflict only when they come from the same source;
+  // otherwise the CLI one wins like any other setting
+  const tokenSource = sources.get('authToken');
+  const tokenFile = config.authTokenFile;
+
+  if (tokenSource !== undefined && tokenSource === sources.get('authTokenFile')) {
+    errors.push('Set either a token or a token file, not both');
+  } else if (tokenFile !== null && tokenSource !== 'flag') {
+    try {
+      config.authToken = fs.readFileSync(tokenFile, 'utf8').trim() || null;
+      if (config.authToken === null) errors.push(`Token file ${tokenFile} is empty`);
+    } catch (error) {
+      errors.push(`Cannot read token file ${tokenFile}: ${error instanceof Error ? error.message : error}`);
+    }
+  } else if (tokenFile !== null) {
+    config.authTokenFile = null;
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  ${errors.join('\n  ')}\n\n${usage()}`);
+  }
+
+  return config;
+}
+
+// Accepts --name=value and --name value
+function parseFlags(argv: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+
+    const eq = arg.indexOf('=');
+    if (eq !== -1) {
+      flags.set(arg.slice(2, eq), arg.slice(eq + 1));
+    } else if (i + 1 < argv.length && !argv[i + 1].startsWith('--')) {
+      flags.set(arg.slice(2), argv[++i]);
+    } else {
+      flags.set(arg.slice(2), '');
+    }
+  }
+
+  return flags;
+}
+
+// The setting as a patch for the config, or undefined when the raw value is invalid
+function parseValue(option: OptionSpec, raw: string): Partial<ServerConfig> | undefined {
+  const trimmed = raw.trim();
+
+  if (option.type === 'string') {
+    if (option.choices && !option.choices.includes(trimmed)) return undefined;
+    return trimmed === '' ? undefined : { [option.key]: trimmed };
+  }
+
+  if (option.type === 'list') {
+    const items = trimmed.split(',').map((item) => item.trim()).filter((item) => item !== '');
+    return items.length > 0 ? { [option.key]: items } : undefined;
+  }
+
+  if (!/^\d+$/.test(trimmed)) return undefined;
+  const value = Number(trimmed);
+  return value >= (option.min ?? 0) && value <= (option.max ?? Infinity) ? { [option.key]: value } : undefined;
+}
+
+function usage(): string {
+  const lines = OPTIONS.map((option) => `  --${option.flag.padEnd(26)} ${option.env.padEnd(36)} ${option.description} (default: ${DEFAULT_CONFIG[option.key] ?? 'none'})`);
+  return `Options (CLI flag, environment variable):\n${lines.join('\n')}`;
+}
@@ -1,146 +1,504 @@
 /**
  * Connection management for Scenic MCP
  *
- * Handles persistent TCP connections to Elixir server with simple request-response pattern.
+ * Handles persistent connections to Elixir servers, over TCP or a Unix domain socket.
+ * Connections are organised into named sessions so several Scenic apps can be driven
+ * at once; each session owns its socket, read buffer, pending requests and health state.
+ *
+ * Every outgoing command is tagged with a request id and a single long-lived reader per
+ * socket routes each reply back to the pending request with the matching id, so
+ * concurrent tool calls can share one socket.
+ *
+ * A background heartbeat pings every session, reconnects with exponential backoff and
+ * reports connection changes (including app restarts) to registered listeners.
+ *
+ * When a token is configured, each new socket authenticates before it is handed out,
+ * and a rejected token is recorded on the session so status tools can explain it.
  */
 
 import * as net from 'net';
+import { DEFAULT_CONFIG, ServerConfig } from './config.js';
 
 // ========================================================================
 // Connection State Management
 // ========================================================================
 
-let connectionState: 'unknown' | 'connected' | 'disconnected' = 'unknown';
-let lastConnectionCheck = 0;
-let lastSuccessfulCommand = 0;
-const CONNECTION_CACHE_TTL = 2000;
-const COMMAND_SUCCESS_TTL = 10000;
-let currentPort = 9999;
+const RECONNECT_BACKOFF_MAX = 30000;
+export const MISSING_TOKEN_ERROR =
+  'The Scenic app requires an auth token, but none is configured. Set SCENIC_MCP_TOKEN or --token-file to the token configured for the app, then restart the MCP server.';
+export const DEFAULT_SESSION = 'default';
+
+let config: ServerConfig = { ...DEFAULT_CONFIG };
+
+/**
+ * Apply server configuration. Call before any session connects; the default session
+ * moves to the configured port (or socket path).
+ */
+export function configureConnection(newConfig: ServerConfig) {
+  config = { ...newConfig };
+  const defaultSession = sessions.get(DEFAULT_SESSION);
+  if (defaultSession && !defaultSession.socket) {
+    defaultSession.port = config.port;
+    defaultSession.socketPath = config.socketPath;
+  }
+}
+
+export function getDefaultPort(): number {
+  return config.port;
+}
+
+export function getDefaultSocketPath(): string | null {
+  return config.socketPath;
+}
+
+interface PendingRequest {
+  // Gets the reply without its request_id, and the raw line as received
+  resolve: (response: string, raw: string) => void;
+  reject: (error: Error) => void;
+  timeout: NodeJS.Timeout;
+}
+
+// 'reachable': a probe got through, but the session has no socket open yet
+type ConnectionState = 'unknown' | 'connected' | 'reachable' | 'disconnected';
+
+interface Session {
+  name: string;
+  port: number;
+  // When set, the session dials this Unix socket and ignores host and port
+  socketPath: string | null;
+  socket: net.Socket | null;
+  // Set while a socket is connecting and authenticating, so concurrent callers share it
+  connecting: Promise<net.Socket> | null;
+  connectionState: ConnectionState;
+  lastConnectionCheck: number;
+  lastSuccessfulCommand: number;
+  pendingRequests: Map<number, PendingRequest>;
+  // Health monitoring
+  connectedSince: number | null;
+  everConnected: boolean;
+  reconnectCount: number;
+  restartCount: number;
+  instanceId: string | null;
+  serverUptimeMs: number | null;
+  lastHeartbeat: number;
+  consecutiveFailures: number;
+  heartbeatTimer: NodeJS.Timeout | null;
+  heartbeatInFlight: boolean;
+  authError: string | null;
+}
+
+export interface SessionHealth {
+  connectionState: ConnectionState;
+  connectedSince: number | null;
+  connectionUptimeMs: number | null;
+  serverUptimeMs: number | null;
+  instanceId: string | null;
+  reconnectCount: number;
+  restartCount: number;
+  lastHeartbeat: number | null;
+  consecutiveFailures: number;
+  authError: string | null;
+}
+
+export type ConnectionEventType = 'connected' | 'reconnected' | 'disconnected' | 'restarted';
+
+export interface ConnectionEvent {
+  type: ConnectionEventType;
+  session: string;
+  port: number;
+  socketPath: string | null;
+  message: string;
+}
+
+export interface SessionInfo {
+  name: string;
+  port: number;
+  socketPath: string | null;
+  active: boolean;
+  connectionState: ConnectionState;
+  pendingRequests: number;
+}
+
+// ========================================================================
+// Session Registry
+// ========================================================================
+
+const sessions = new Map<string, Session>();
+let activeSessionName = DEFAULT_SESSION;
+let nextRequestId = 1;
+let monitorRunning = false;
+
+function createSession(name: string, port: number = config.port): Session {
+  const session: Session = {
+    name,
+    port,
+    socketPath: config.socketPath,
+    socket: null,
+    connecting: null,
+    connectionState: 'unknown',
+    lastConnectionCheck: 0,
+    lastSuccessfulCommand: 0,
+    pendingRequests: new Map(),
+    connectedSince: null,
+    everConnected: false,
+    reconnectCount: 0,
+    restartCount: 0,
+    instanceId: null,
+    serverUptimeMs: null,
+    lastHeartbeat: 0,
+    consecutiveFailures: 0,
+    heartbeatTimer: null,
+    heartbeatInFlight: false,
+    authError: null,
+  };
+  sessions.set(name, session);
+  if (monitorRunning) scheduleHeartbeat(session, 0);
+  return session;
+}
+
+createSession(DEFAULT_SESSION);
+
+function getSession(name: string): Session {
+  const session = sessions.get(name);
+  if (!session) {
+    throw new Error(`Unknown session "${name}". Use connect_scenic with a session name to create it, or list_sessions to see existing ones.`);
+  }
+  return session;
+}
+
+export function hasSession(name: string): boolean {
+  return sessions.has(name);
+}
+
+export function getActiveSessionName(): string {
+  return activeSessionName;
+}
+
+export function switchSession(name: string) {
+  getSession(name);
+  activeSessionName = name;
+}
+
+export function listSessions(): SessionInfo[] {
+  return Array.from(sessions.values()).map((session) => ({
+    name: session.name,
+    port: session.port,
+    socketPath: session.socketPath,
+    active: session.name === activeSessionName,
+    connectionState: session.connectionState,
+    pendingRequests: session.pendingRequests.size,
+  }));
+}
 
 // ========================================================================
-// Persistent Connection Management
+// Request Multiplexing
 // ========================================================================
 
-let persistentConnection: net.Socket | null = null;
-let connectionBuffer = '';
+function settleRequest(session: Session, requestId: number): PendingRequest | undefined {
+  const pending = session.pendingRequests.get(requestId);
+  if (pending) {
+    clearTimeout(pending.timeout);
+    session.pendingRequests.delete(requestId);
+  }
+  return pending;
+}
+
+function rejectAllPending(session: Session, error: Error) {
+  for (const requestId of Array.from(session.pendingRequests.keys())) {
+    settleRequest(session, requestId)?.reject(error);
+  }
+}
+
+// Route a single reply line to the request that is waiting for it.
+// Replies without a request_id (older Elixir servers) go to the oldest pending
+// request, since the Elixir side answers commands strictly in order.
+// Replies for unknown ids (e.g. a request that already timed out) are dropped.
+function routeResponse(session: Session, line: string) {
+  const raw = line;
+  let requestId: number | undefined;
+
+  try {
+    const parsed = JSON.parse(line);
+    if (parsed && typeof parsed.request_id === 'number') {
+      // The id is transport metadata - hand tools the reply without it
+      const { request_id, ...reply } = parsed;
+      requestId = request_id;
+      line = JSON.stringify(reply);
+    }
+  } catch {
+    // Not JSON - fall through to in-order delivery
+  }
+
+  if (requestId === undefined) {
+    requestId = session.pendingRequests.keys().next().value;
+    if (requestId === undefined) return;
+  }
+
+  const pending = settleRequest(session, requestId);
+  if (pending) {
+    session.lastSuccessfulCommand = Date.now();
+    pending.resolve(line, raw);
+  }
+}
 
 // ========================================================================
 // Connection Functions
 // ========================================================================
 
-function getPersistentConnection(): Promise<net.Socket> {
+/**
+ * Called with the exact line sent to the app; the returned callback gets the raw
+ * reply line, or an error if none arrived. Heartbeats and the auth handshake are
+ * not traced.
+ */
+export type BridgeTracer = (session: string, message: string) => (reply: string | null, error: string | null) => void;
+
+let bridgeTracer: BridgeTracer | null = null;
+
+export function setBridgeTracer(tracer: BridgeTracer | null) {
+  bridgeTracer = tracer;
+}
+
+function getPersistentConnection(session: Session): Promise<net.Socket> {
+  if (session.connecting) {
+    return session.connecting;
+  }
+  if (session.socket && !session.socket.destroyed) {
+    return Promise.resolve(session.socket);
+  }
+
+  const connecting = openConnection(session);
+  session.connecting = connecting;
+  const done = () => {
+    if (session.connecting === connecting) session.connecting = null;
+  };
+  connecting.then(done, done);
+  return connecting;
+}
+
+function openConnection(session: Session): Promise<net.Socket> {
   return new Promise((resolve, reject) => {
-    if (persistentConnection && !persistentConnection.destroyed) {
-      resolve(persistentConnection);
-      return;
-    }
+    const socket = new net.Socket();
+    let buffer = '';
+    session.socket = socket;
+
+    socket.connect(connectOptions(session), async () => {
+      try {
+        await authenticate(session, socket);
+      } catch (error) {
+        if (session.socket === socket) session.authError = error instanceof Error ? error.message : String(error);
+        socket.destroy();
+        reject(error);
+        return;
+      }
 
-    persistentConnection = new net.Socket();
+      if (session.socket !== socket) {
+        // The session moved to another endpoint while this socket authenticated
+        socket.destroy();
+        reject(new Error(`Session "${session.name}" moved to ${describeEndpoint(session)}`));
+        return;
+      }
+
+      session.authError = null;
+      setConnectionState(session, 'connected');
+      session.lastSuccessfulCommand = Date.now();
+      resolve(socket);
+    });
 
-    persistentConnection.connect(currentPort, 'localhost', () => {
-      connectionState = 'connected';
-      lastSuccessfulCommand = Date.now();
-      resolve(persistentConnection!);
+    // Single long-lived reader for this socket. The buffer is scoped to the
+    // socket so stray bytes never leak into the next connection.
+    socket.on('data', (data: Buffer) => {
+      if (session.socket !== socket) return;
+      buffer += data.toString();
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line) routeResponse(session, line);
+      }
     });
 
-    persistentConnection.on('error', (err) => {
-      connectionState = 'disconnected';
-      persistentConnection = null;
+    // A socket the session has replaced (or moved away from) no longer owns the
+    // pending requests, so its late events must leave them alone
+    socket.on('error', (err) => {
       reject(err);
+      if (session.socket !== socket) return;
+      session.socket = null;
+      setConnectionState(session, 'disconnected');
+      rejectAllPending(session, err);
     });
 
-    persistentConnection.on('close', () => {
-      connectionState = 'disconnected';
-      persistentConnection = null;
+    socket.on('close', () => {
+      const error = new Error('Connection closed');
+      // Settles a connection closed before it finished connecting (no-op otherwise)
+      reject(error);
+      if (session.socket !== socket) return;
+      session.socket = null;
+      setConnectionState(session, 'disconnected');
+      rejectAllPending(session, error);
     });
   });
 }
 
-async function sendThroughPersistentConnection(command: any): Promise<string> {
-  const conn = await getPersistentConnection();
+// Send the token as the first message on a new socket. The app rejects every
+// command but hello until it has seen a valid token, and drops the connection
+// on a wrong one.
+function authenticate(session: Session, socket: net.Socket): Promise<void> {
+  if (config.authToken === null) {
+    return Promise.resolve();
+  }
+
+  const requestId = nextRequestId++;
 
   return new Promise((resolve, reject) => {
     const timeout = setTimeout(() => {
-      reject(new Error('Command timeout after 5000ms'));
-    }, 5000);
+      session.pendingRequests.delete(requestId);
+      reject(new Error(`Authentication timeout after ${config.commandTimeoutMs}ms`));
+    }, config.commandTimeoutMs);
+
+    const onReply = (line: string) => {
+      let reply: any;
+      try {
+        reply = JSON.parse(line);
+      } catch {
+        reject(new Error(`Authentication failed: unexpected reply ${line}`));
+        return;
+      }
 
-    // Set up one-time data handler for this request
-    const onData = (data: Buffer) => {
-      connectionBuffer += data.toString();
+      if (reply.error) {
+        reject(new Error(`${reply.error}. Check that SCENIC_MCP_TOKEN (or --token-file) matches the token configured for the Scenic app.`));
+      } else {
+        resolve();
+      }
+    };
 
-      const lines = connectionBuffer.split('\n');
+    session.pendingRequests.set(requestId, { resolve: onReply, reject, timeout });
+    socket.write(JSON.stringify({ action: 'auth', token: config.authToken, request_id: requestId }) + '\n');
+  });
+}
 
-      // If we have at least one complete line, process it
-      if (lines.length > 1) {
-        const response = lines[0].trim();
-        connectionBuffer = lines.slice(1).join('\n');
+function connectOptions(session: Session, port: number = session.port): net.NetConnectOpts {
+  return session.socketPath !== null ? { path: session.socketPath } : { port, host: config.host };
+}
 
-        clearTimeout(timeout);
-        lastSuccessfulCommand = Date.now();
+function describeEndpoint(session: Session): string {
+  return session.socketPath !== null ? `socket ${session.socketPath}` : `port ${session.port}`;
+}
 
-        // Remove this handler after getting response
-        conn.off('data', onData);
+async function sendThroughPersistentConnection(
+  session: Session,
+  command: any,
+  timeoutMs: number = config.commandTimeoutMs,
+  traced: boolean = true
+): Promise<string> {
+  const conn = await getPersistentConnection(session);
+  const requestId = nextRequestId++;
 
-        resolve(response);
-      }
-    };
+  const payload = typeof command === 'string' ? { action: command } : command;
+  const message = JSON.stringify({ ...payload, request_id: requestId });
+  const done = traced && bridgeTracer ? bridgeTracer(session.name, message) : null;
 
-    conn.on('data', onData);
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      // Forget the request; a late reply for this id will be discarded by routeResponse
+      session.pendingRequests.delete(requestId);
+      const error = new CommandTimeoutError(`Command timeout after ${timeoutMs}ms`);
+      done?.(null, error.message);
+      reject(error);
+    }, timeoutMs);
+
+    session.pendingRequests.set(requestId, {
+      resolve: (response, raw) => {
+        done?.(raw, null);
+        resolve(response);
+      },
+      reject: (error) => {
+        done?.(null, error.message);
+        reject(error);
+      },
+      timeout,
+    });
 
-    const message = typeof command === 'string' ? command : JSON.stringify(command);
     conn.write(message + '\n');
   });
 }
 
-export function closePersistentConnection() {
-  if (persistentConnection && !persistentConnection.destroyed) {
-    persistentConnection.destroy();
-    persistentConnection = null;
+function closeSessionConnection(session: Session) {
+  if (session.socket && !session.socket.destroyed) {
+    session.socket.destroy();
+  }
+  session.socket = null;
+}
+
+export function closeAllConnections() {
+  stopHealthMonitor();
+  for (const session of sessions.values()) {
+    closeSessionConnection(session);
   }
 }
 
-async function sendToElixir(command: any, retries = 3): Promise<string> {
+class CommandTimeoutError extends Error {}
+
+// Commands that drive the app. One that timed out may still be running there, so
+// sending it again would repeat the input (a second click, another drag)
+const INPUT_ACTIONS = new Set([
+  'send_keys',
+  'send_mouse_move',
+  'send_mouse_click',
+  'send_mouse_down',
+  'send_mouse_up',
+  'send_scroll',
+  'drag',
+  'click_element',
+  'hover_element',
+]);
+
+function isInputCommand(command: any): boolean {
+  return typeof command === 'object' && command !== null && INPUT_ACTIONS.has(command.action);
+}
+
+async function sendToElixir(
+  session: Session,
+  command: any,
+  retries: number = config.retries,
+  timeoutMs: number = config.commandTimeoutMs
+): Promise<string> {
   for (let i = 0; i < retries; i++) {
     try {
-      return await sendThroughPersistentConnection(command);
+      return await sendThroughPersistentConnection(session, command, timeoutMs);
     } catch (error) {
-      if (i === retries - 1) throw error;
-      if (persistentConnection) {
-        persistentConnection.destroy();
-        persistentConnection = null;
-      }
-      await new Promise(resolve => setTimeout(resolve, 500));
+      // A rejected token will be rejected again; fail fast instead of retrying
+      if (i === retries - 1 || session.authError !== null) throw error;
+      if (error instanceof CommandTimeoutError && isInputCommand(command)) throw error;
+      // No need to tear down a live socket here: replies are routed by request id,
+      // so a timed-out request cannot corrupt the ones that follow it. Dead sockets
+      // are cleared by their 'close' handler and re-dialled on the next attempt.
+      await new Promise(resolve => setTimeout(resolve, config.retryDelayMs));
     }
   }
   throw new Error('Failed to send command after retries');
 }
 
-async function checkTCPServer(port: number = 9999, useCache: boolean = true): Promise<boolean> {
+// A live persistent socket is trusted without a check: when the app goes away its
+// 'close' handler clears the socket, so a restarted app is never reported as connected.
+async function checkTCPServer(session: Session, port: number = session.port, useCache: boolean = true): Promise<boolean> {
   const now = Date.now();
 
-  if (useCache && now - lastSuccessfulCommand < COMMAND_SUCCESS_TTL) {
-    return true;
+  if (useCache && now - session.lastConnectionCheck < config.connectionCacheTtlMs) {
+    return session.connectionState === 'connected' || session.connectionState === 'reachable';
   }
 
-  if (useCache && now - lastConnectionCheck < CONNECTION_CACHE_TTL) {
-    return connectionState === 'connected';
-  }
-
-  const isConnected = await performTCPCheck(port);
-  lastConnectionCheck = now;
-
-  const previousState = connectionState;
-  connectionState = isConnected ? 'connected' : 'disconnected';
-
-  if (previousState !== connectionState && previousState !== 'unknown') {
-    console.error(`[Scenic MCP] Connection state changed: ${previousState} -> ${connectionState}`);
-  }
+  const isConnected = await performTCPCheck(session, port);
+  session.lastConnectionCheck = now;
+  // Only the session's own socket makes it connected; that is reported when it opens
+  const hasSocket = session.socket !== null && !session.socket.destroyed;
+  setConnectionState(session, !isConnected ? 'disconnected' : hasSocket ? 'connected' : 'reachable');
 
   return isConnected;
 }
 
-async function performTCPCheck(port: number = 9999): Promise<boolean> {
-  if (persistentConnection && !persistentConnection.destroyed) {
+async function performTCPCheck(session: Session, port: number = session.port): Promise<boolean> {
+  if (session.socket && !session.socket.destroyed) {
     return true;
   }
 
@@ -149,9 +507,9 @@ async function performTCPCheck(port: number = 9999): Promise<boolean> {
     const timeout = setTimeout(() => {
       client.destroy();
       resolve(false);
-    }, 1000);
+    }, config.tcpCheckTimeoutMs);
 
-    client.connect(port, 'localhost', () => {
+    client.connect(connectOptions(session, port), () => {
       clearTimeout(timeout);
       client.destroy();
       resolve(true);
@@ -164,27 +522,312 @@ async function performTCPCheck(port: number = 9999): Promise<boolean> {
   });
 }
 
+// ========================================================================
+// Health Monitoring
+// ========================================================================
+
+type ConnectionListener = (event: ConnectionEvent) => void;
+
+const connectionListeners: ConnectionListener[] = [];
+
+export function onConnectionEvent(listener: ConnectionListener) {
+  connectionListeners.push(listener);
+}
+
+function emitConnectionEvent(session: Session, type: ConnectionEventType, message: string) {
+  const event: ConnectionEvent = { type, session: session.name, port: session.port, socketPath: session.socketPath, message };
+  console.error(`[Scenic MCP] ${message}`);
+  connectionListeners.forEach((listener) => listener(event));
+}
+
+function setConnectionState(session: Session, state: ConnectionState) {
+  const previousState = session.connectionState;
+  session.connectionState = state;
+  if (previousState === state) return;
+
+  // Check a fresh connection right away (it may be a restarted app), and start
+  // reconnecting soon after a drop rather than waiting for the next interval
+  if (monitorRunning) {
+    scheduleHeartbeat(session, state === 'disconnected' ? config.retryDelayMs : 0);
+  }
+
+  if (state === 'connected') {
+    session.connectedSince = Date.now();
+    if (session.everConnected) {
+      session.reconnectCount++;
+      emitConnectionEvent(session, 'reconnected', `Session "${session.name}" reconnected on ${describeEndpoint(session)}`);
+    } else {
+      emitConnectionEvent(session, 'connected', `Session "${session.name}" connected on ${describeEndpoint(session)}`);
+    }
+    session.everConnected = true;
+  } else {
+    session.connectedSince = null;
+    if (previousState === 'connected') {
+      emitConnectionEvent(session, 'disconnected', `Session "${session.name}" lost its connection on ${describeEndpoint(session)}`);
+    }
+  }
+}
+
+/**
+ * Start pinging every session in the background. Healthy sessions are pinged every
+ * heartbeat interval; unreachable ones are retried with exponential backoff starting
+ * at the retry delay.
+ */
+export function startHealthMonitor() {
+  if (monitorRunning) return;
+  monitorRunning = true;
+  for (const session of sessions.values()) {
+    scheduleHeartbeat(session, 0);
+  }
+}
+
+export function stopHealthMonitor() {
+  monitorRunning = false;
+  for (const session of sessions.values()) {
+    if (session.heartbeatTimer) clearTimeout(session.heartbeatTimer);
+    session.heartbeatTimer = null;
+  }
+}
+
+function scheduleHeartbeat(session: Session, delayMs: number) {
+  if (session.heartbeatTimer) clearTimeout(session.heartbeatTimer);
+  session.heartbeatTimer = setTimeout(() => heartbeat(session), delayMs);
+  // Never keep the process alive just to ping
+  session.heartbeatTimer.unref();
+}
+
+async function heartbeat(session: Session) {
+  session.heartbeatTimer = null;
+  if (session.heartbeatInFlight) return;
+  session.heartbeatInFlight = true;
+  const endpoint = describeEndpoint(session);
+
+  try {
+    const reply = JSON.parse(await sendThroughPersistentConnection(session, 'hello', config.heartbeatTimeoutMs, false));
+    // Endpoint changed mid-ping; the new endpoint has its own schedule
+    if (describeEndpoint(session) !== endpoint) return;
+
+    session.lastHeartbeat = Date.now();
+    session.consecutiveFailures = 0;
+    session.serverUptimeMs = reply.uptime_ms ?? null;
+    // hello is answered without a token, so this is where a missing one shows up
+    session.authError = reply.auth_required && !reply.authenticated ? MISSING_TOKEN_ERROR : null;
+
+    if (reply.instance_id !== undefined) {
+      if (session.instanceId !== null && session.instanceId !== reply.instance_id) {
+        session.restartCount++;
+        emitConnectionEvent(session, 'restarted', `Scenic app for session "${session.name}" restarted (instance ${session.instanceId} -> ${reply.instance_id})`);
+      }
+      session.instanceId = reply.instance_id;
+    }
+  } catch {
+    if (describeEndpoint(session) !== endpoint) return;
+    session.consecutiveFailures++;
+  } finally {
+    session.heartbeatInFlight = false;
+  }
+
+  if (!monitorRunning || sessions.get(session.name) !== session) return;
+
+  const delay = session.consecutiveFailures === 0
+    ? config.heartbeatIntervalMs
+    : Math.min(Math.max(config.retryDelayMs, 100) * 2 ** (session.consecutiveFailures - 1), RECONNECT_BACKOFF_MAX);
+  scheduleHeartbeat(session, delay);
+}
+
+function getSessionHealth(session: Session): SessionHealth {
+  return {
+    connectionState: session.connectionState,
+    connectedSince: session.connectedSince,
+    connectionUptimeMs: session.connectedSince !== null ? Date.now() - session.connectedSince : null,
+    serverUptimeMs: session.serverUptimeMs,
+    instanceId: session.instanceId,
+    reconnectCount: session.reconnectCount,
+    restartCount: session.restartCount,
+    lastHeartbeat: session.lastHeartbeat || null,
+    consecutiveFailures: session.consecutiveFailures,
+    authError: session.authError,
+  };
+}
+
+// ========================================================================
+// Discovery
+// ========================================================================
+
+export interface DiscoveredApp {
+  port: number;
+  appName: string;
+  viewportName: string;
+  driverName: string;
+}
+
+const DISCOVERY_CONCURRENCY = 20;
+let discoveredApps: DiscoveredApp[] = [];
+
+// Open a throwaway socket, send the hello handshake and read one reply line.
+// Resolves null for anything that is not a Scenic MCP server.
+function probeScenicServer(port: number, timeoutMs: number): Promise<DiscoveredApp | null> {
+  return new Promise((resolve) => {
+    const client = new net.Socket();
+    let buffer = '';
+
+    const finish = (result: DiscoveredApp | null) => {
+      clearTimeout(timeout);
+      client.destroy();
+      resolve(result);
+    };
+
+    const timeout = setTimeout(() => finish(null), timeoutMs);
+
+    client.connect(port, config.host, () => {
+      client.write(JSON.stringify({ action: 'hello', request_id: 0 }) + '\n');
+    });
+
+    client.on('data', (data: Buffer) => {
+      buffer += data.toString();
+      const newlineIndex = buffer.indexOf('\n');
+      if (newlineIndex === -1) return;
+
+      try {
+        finish(discoveredApp(port, JSON.parse(buffer.slice(0, newlineIndex))));
+      } catch {
+        finish(null);
+      }
+    });
+
+    client.on('error', () => finish(null));
+  });
+}
+
+// The app serves one client at a time, so a probe to a port a session is already
+// connected to would wait in the accept queue until it timed out. Ask over the
+// session's own socket instead.
+async function probeThroughSession(session: Session, port: number, timeoutMs: number): Promise<DiscoveredApp | null> {
+  try {
+    return discoveredApp(port, JSON.parse(await sendThroughPersistentConnection(session, 'hello', timeoutMs, false)));
+  } catch {
+    return null;
+  }
+}
+
+function sessionConnectedTo(port: number): Session | undefined {
+  return Array.from(sessions.values()).find((session) => session.socketPath === null && session.port === port && session.socket !== null && !session.socket.destroyed);
+}
+
+function discoveredApp(port: number, reply: any): DiscoveredApp | null {
+  if (reply.status !== 'ok') return null;
+
+  return {
+    port,
+    appName: reply.app_name ?? 'Unknown',
+    viewportName: reply.viewport_name ?? 'unknown',
+    driverName: reply.driver_name ?? 'unknown',
+  };
+}
+
+/**
+ * Scan a range of ports on the configured host for Scenic MCP servers using the hello handshake.
+ * Ports a session is connected to are asked over that session's socket.
+ * The result is remembered so tools can connect to an app by its index.
+ */
+export async function discoverScenicApps(startPort: number, endPort: number, timeoutMs: number = 500): Promise<DiscoveredApp[]> {
+  const ports: number[] = [];
+  for (let port = startPort; port <= endPort; port++) {
+    ports.push(port);
+  }
+
+  const found: DiscoveredApp[] = [];
+  for (let i = 0; i < ports.length; i += DISCOVERY_CONCURRENCY) {
+    const batch = ports.slice(i, i + DISCOVERY_CONCURRENCY);
+    const results = await Promise.all(
+      batch.map((port) => {
+        const session = sessionConnectedTo(port);
+        return session ? probeThroughSession(session, port, timeoutMs) : probeScenicServer(port, timeoutMs);
+      })
+    );
+    results.forEach((app) => app && found.push(app));
+  }
+
+  discoveredApps = found;
+  return found;
+}
+
+export function getDiscoveredApps(): DiscoveredApp[] {
+  return discoveredApps;
+}
+
 // ========================================================================
 // Connection Context - Exported to tools
 // ========================================================================
 
 export interface ConnectionContext {
-  sendToElixir: (command: any, retries?: number) => Promise<string>;
+  sessionName: string;
+  // timeoutMs overrides the context's command timeout for this one command
+  sendToElixir: (command: any, retries?: number, timeoutMs?: number) => Promise<string>;
+  getCommandTimeoutMs: () => number;
   checkTCPServer: (port?: number, useCache?: boolean) => Promise<boolean>;
+  // Point the session at a TCP port, or at a Unix socket (which replaces host and port)
   setCurrentPort: (port: number) => void;
+  setSocketPath: (socketPath: string) => void;
   getCurrentPort: () => number;
+  getSocketPath: () => string | null;
+  describeEndpoint: () => string;
+  getHealth: () => SessionHealth;
+}
+
+export interface ContextOptions {
+  // Overrides the configured command timeout for every command sent through this context
+  timeoutMs?: number;
+}
+
+function moveSession(session: Session, port: number, socketPath: string | null) {
+  if (port === session.port && socketPath === session.socketPath) return;
+
+  // Requests (and a connect in flight) belong to the old endpoint; the old socket's
+  // handlers ignore it once it is detached, so settle them here
+  rejectAllPending(session, new Error(`Session "${session.name}" moved to a new endpoint`));
+  session.connecting = null;
+  closeSessionConnection(session);
+  session.connectionState = 'unknown';
+  session.lastSuccessfulCommand = 0;
+  session.lastConnectionCheck = 0;
+  // A different endpoint is a different app: start its health history afresh
+  session.connectedSince = null;
+  session.everConnected = false;
+  session.reconnectCount = 0;
+  session.restartCount = 0;
+  session.instanceId = null;
+  session.serverUptimeMs = null;
+  session.consecutiveFailures = 0;
+  session.authError = null;
+  session.port = port;
+  session.socketPath = socketPath;
+  if (monitorRunning) scheduleHeartbeat(session, 0);
 }
 
-export function getConnectionContext(): ConnectionContext {
+/**
+ * Get a connection context bound to a session (the active session by default).
+ *
+ * Binding to a session name that does not exist yet creates it, so connect_scenic
+ * can register new sessions; other callers should check hasSession first.
+ */
+export function getConnectionContext(
+  sessionName: string = activeSessionName,
+  options: ContextOptions = {}
+): ConnectionContext {
+  const session = sessions.get(sessionName) ?? createSession(sessionName);
+
   return {
-    sendToElixir,
-    checkTCPServer,
-    setCurrentPort: (port: number) => {
-      if (port !== currentPort) {
-        closePersistentConnection();
-      }
-      currentPort = port;
-    },
-    getCurrentPort: () => currentPort,
+    sessionName,
+    sendToElixir: (command: any, retries?: number, timeoutMs?: number) =>
+      sendToElixir(session, command, retries, timeoutMs ?? options.timeoutMs),
+    getCommandTimeoutMs: () => options.timeoutMs ?? config.commandTimeoutMs,
+    checkTCPServer: (port?: number, useCache?: boolean) => checkTCPServer(session, port, useCache),
+    setCurrentPort: (port: number) => moveSession(session, port, null),
+    setSocketPath: (socketPath: string) => moveSession(session, session.port, socketPath),
+    getCurrentPort: () => session.port,
+    getSocketPath: () => session.socketPath,
+    describeEndpoint: () => describeEndpoint(session),
+    getHealth: () => getSessionHealth(session),
   };
 }
@@ -0,0 +1,63 @@
+import { diffImages } from './diff.js';
+import { RgbaImage } from './png.js';
+
+function solid(width: number, height: number, value: number): RgbaImage {
+  const data = Buffer.alloc(width * height * 4, value);
+  for (let i = 3; i < data.length; i += 4) data[i] = 255;
+  return { width, height, data };
+}
+
+// Set one channel of the pixels in a rectangle
+function shade(image: RgbaImage, x: number, y: number, width: number, height: number, value: number): RgbaImage {
+  const data = Buffer.from(image.data);
+  for (let row = y; row < y + height; row++) {
+    for (let col = x; col < x + width; col++) {
+      data[(row * image.width + col) * 4] = value;
+    }
+  }
+  return { ...image, data };
+}
+
+describe('diffImages', () => {
+  const baseline = solid(32, 32, 100);
+
+  it('reports identical images as unchanged', () => {
+    const result = diffImages(baseline, solid(32, 32, 100), { pixelThreshold: 0, ignore: [] });
+
+    expect(result.changedPixels).toBe(0);
+    expect(result.mismatchPercent).toBe(0);
+    expect(result.changedRegions).toEqual([]);
+  });
+
+  it('ignores channel differences up to the pixel threshold', () => {
+    const current = shade(baseline, 0, 0, 32, 32, 108);
+
+    expect(diffImages(baseline, current, { pixelThreshold: 8, ignore: [] }).changedPixels).toBe(0);
+    expect(diffImages(baseline, current, { pixelThreshold: 7, ignore: [] }).changedPixels).toBe(32 * 32);
+  });
+
+  it('counts changed pixels and bounds separate changes as separate regions', () => {
+    const current = shade(shade(baseline, 2, 2, 4, 2, 255), 24, 20, 3, 3, 0);
+    const result = diffImages(baseline, current, { pixelThreshold: 8, ignore: [] });
+
+    expect(result.changedPixels).toBe(4 * 2 + 3 * 3);
+    expect(result.mismatchPercent).toBeCloseTo((17 / 1024) * 100);
+    // Largest first
+    expect(result.changedRegions).toEqual([
+      { x: 24, y: 20, width: 3, height: 3 },
+      { x: 2, y: 2, width: 4, height: 2 },
+    ]);
+  });
+
+  it('skips ignored regions entirely', () => {
+    const current = shade(baseline, 2, 2, 4, 2, 255);
+    const result = diffImages(baseline, current, { pixelThreshold: 8, ignore: [{ x: 0, y: 0, width: 8, height: 8 }] });
+
+    expect(result.changedPixels).toBe(0);
+    expect(result.comparedPixels).toBe(32 * 32 - 64);
+  });
+
+  it('rejects images of different sizes', () => {
+    expect(() => diffImages(baseline, solid(16, 32, 100), { pixelThreshold: 0, ignore: [] })).toThrow('Image sizes differ');
+  });
+});
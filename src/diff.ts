@@ -0,0 +1,167 @@
+/**
+ * Pixel diffing for Scenic MCP visual regression checks
+ *
+ * Compares two RGBA images of the same size, skipping ignored regions, and reports
+ * how many pixels changed, where they are (as bounding boxes) and a diff image that
+ * highlights the changes over a faded copy of the baseline.
+ */
+
+import { Region, RgbaImage } from './png.js';
+
+export interface DiffOptions {
+  // Largest per-channel difference (0-255) still treated as the same pixel
+  pixelThreshold: number;
+  ignore: Region[];
+}
+
+export interface DiffResult {
+  changedPixels: number;
+  comparedPixels: number;
+  mismatchPercent: number;
+  changedRegions: Region[];
+  diffImage: RgbaImage;
+}
+
+// Changed pixels are grouped into cells of this size; touching cells form one region
+const CELL_SIZE = 8;
+
+export function diffImages(baseline: RgbaImage, current: RgbaImage, options: DiffOptions): DiffResult {
+  if (baseline.width !== current.width || baseline.height !== current.height) {
+    throw new Error(
+      `Image sizes differ: baseline is ${baseline.width}x${baseline.height}, current is ${current.width}x${current.height}`
+    );
+  }
+
+  const { width, height } = baseline;
+  const ignored = ignoreMask(width, height, options.ignore);
+  const diffImage: RgbaImage = { width, height, data: Buffer.alloc(width * height * 4) };
+
+  const cols = Math.ceil(width / CELL_SIZE);
+  const rows = Math.ceil(height / CELL_SIZE);
+  const cells = new Map<number, { left: number; top: number; right: number; bottom: number }>();
+
+  let changedPixels = 0;
+  let comparedPixels = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const o = i * 4;
+
+      if (ignored[i]) {
+        paint(diffImage, o, 80, 80, 200);
+        continue;
+      }
+
+      comparedPixels++;
+      const delta = Math.max(
+        Math.abs(baseline.data[o] - current.data[o]),
+        Math.abs(baseline.data[o + 1] - current.data[o + 1]),
+        Math.abs(baseline.data[o + 2] - current.data[o + 2]),
+        Math.abs(baseline.data[o + 3] - current.data[o + 3])
+      );
+
+      if (delta > options.pixelThreshold) {
+        changedPixels++;
+        paint(diffImage, o, 255, 0, 0);
+
+        const cell = Math.floor(y / CELL_SIZE) * cols + Math.floor(x / CELL_SIZE);
+        const bounds = cells.get(cell);
+        if (bounds) {
+          bounds.left = Math.min(bounds.left, x);
+          bounds.right = Math.max(bounds.right, x);
+          bounds.bottom = Math.max(bounds.bottom, y);
+        } else {
+          cells.set(cell, { left: x, top: y, right: x, bottom: y });
+        }
+      } else {
+        // Faded greyscale of the baseline, so changes stand out
+        const grey = Math.round((baseline.data[o] + baseline.data[o + 1] + baseline.data[o + 2]) / 3);
+        const faded = 255 - Math.round((255 - grey) * 0.3);
+        paint(diffImage, o, faded, faded, faded);
+      }
+    }
+  }
+
+  return {
+    changedPixels,
+    comparedPixels,
+    mismatchPercent: comparedPixels > 0 ? (changedPixels / comparedPixels) * 100 : 0,
+    changedRegions: groupCells(cells, cols, rows),
+    diffImage,
+  };
+}
+
+function ignoreMask(width: number, height: number, regions: Region[]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+
+  for (const region of regions) {
+    const left = Math.max(0, Math.floor(region.x));
+    const top = Math.max(0, Math.floor(region.y));
+    const right = Math.min(width, Math.ceil(region.x + region.width));
+    const bottom = Math.min(height, Math.ceil(region.y + region.height));
+
+    for (let y = top; y < bottom; y++) {
+      mask.fill(1, y * width + left, y * width + Math.max(left, right));
+    }
+  }
+
+  return mask;
+}
+
+function paint(image: RgbaImage, offset: number, r: number, g: number, b: number) {
+  image.data[offset] = r;
+  image.data[offset + 1] = g;
+  image.data[offset + 2] = b;
+  image.data[offset + 3] = 255;
+}
+
+// Flood-fill touching cells (including diagonals) into regions, largest first
+function groupCells(
+  cells: Map<number, { left: number; top: number; right: number; bottom: number }>,
+  cols: number,
+  rows: number
+): Region[] {
+  const visited = new Set<number>();
+  const regions: Region[] = [];
+
+  for (const start of cells.keys()) {
+    if (visited.has(start)) continue;
+
+    let left = Infinity;
+    let top = Infinity;
+    let right = -Infinity;
+    let bottom = -Infinity;
+    const stack = [start];
+    visited.add(start);
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const bounds = cells.get(cell)!;
+      left = Math.min(left, bounds.left);
+      top = Math.min(top, bounds.top);
+      right = Math.max(right, bounds.right);
+      bottom = Math.max(bottom, bounds.bottom);
+
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+
+          const neighbour = r * cols + c;
+          if (cells.has(neighbour) && !visited.has(neighbour)) {
+            visited.add(neighbour);
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    regions.push({ x: left, y: top, width: right - left + 1, height: bottom - top + 1 });
+  }
+
+  return regions.sort((a, b) => b.width * b.height - a.width * a.height);
+}
@@ -13,10 +13,56 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  LoggingLevel,
+  LoggingLevelSchema,
+  ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { getToolDefinitions, handleToolCall } from './tools.js';
-import { closePersistentConnection } from './connection.js';
+import {
+  configureGuards,
+  configureToolPolicy,
+  getToolDefinitions,
+  handleToolCall,
+  setConfirmationHandler,
+} from './tools.js';
+import { closeAllConnections, configureConnection, onConnectionEvent, startHealthMonitor } from './connection.js';
+import { configureAuditLog } from './audit.js';
+import { loadConfig, ServerConfig } from './config.js';
+import { getPrompt, getPromptDefinitions } from './prompts.js';
+import {
+  getResourceTemplates,
+  listResources,
+  onResourceListChanged,
+  onResourceUpdated,
+  readResource,
+  stopResourcePolling,
+  subscribeResource,
+  unsubscribeResource,
+} from './resources.js';
+
+// ========================================================================
+// Configuration
+// ========================================================================
+
+let config: ServerConfig;
+try {
+  config = loadConfig(process.argv.slice(2), process.env);
+  configureToolPolicy(config);
+  configureGuards(config);
+} catch (error) {
+  console.error(`[Scenic MCP] ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+configureConnection(config);
+configureAuditLog(config);
 
 // ========================================================================
 // Server Setup
@@ -30,6 +76,9 @@ const server = new Server(
   {
     capabilities: {
       tools: {},
+      resources: { subscribe: true, listChanged: true },
+      prompts: {},
+      logging: {},
     },
   }
 );
@@ -51,6 +100,115 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   return await handleToolCall(name, args);
 });
 
+// Guarded key chords and clicks ask the user first, when the client can ask
+setConfirmationHandler(async (message) => {
+  if (!server.getClientCapabilities()?.elicitation) {
+    return null;
+  }
+
+  const result = await server.elicitInput({
+    message,
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        confirm: {
+          type: 'boolean',
+          title: 'Allow',
+          description: 'Send this input to the Scenic app',
+        },
+      },
+      required: ['confirm'],
+    },
+  });
+
+  return result.action === 'accept' && result.content?.confirm === true;
+});
+
+// Scene graph resources
+server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  return {
+    resources: await listResources(),
+  };
+});
+
+server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+  return {
+    resourceTemplates: getResourceTemplates(),
+  };
+});
+
+server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+  return await readResource(request.params.uri);
+});
+
+server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+  subscribeResource(request.params.uri);
+  return {};
+});
+
+server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+  unsubscribeResource(request.params.uri);
+  return {};
+});
+
+// ========================================================================
+// Notifications
+// ========================================================================
+
+// Least severe level the client wants to hear about (logging/setLevel); everything until it asks
+let minimumLogLevel: LoggingLevel = 'debug';
+
+server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+  minimumLogLevel = request.params.level;
+  return {};
+});
+
+function wantsLogLevel(level: LoggingLevel): boolean {
+  const levels = LoggingLevelSchema.options;
+  return levels.indexOf(level) >= levels.indexOf(minimumLogLevel);
+}
+
+// Tell the client when a Scenic app connects, drops, reconnects or restarts
+onConnectionEvent((event) => {
+  const level: LoggingLevel = event.type === 'disconnected' ? 'warning' : 'info';
+  if (!wantsLogLevel(level)) return;
+
+  server
+    .sendLoggingMessage({
+      level,
+      logger: 'scenic-mcp',
+      data: event,
+    })
+    .catch(() => {
+      // Client not connected yet or gone - nothing to notify
+    });
+});
+
+// Workflow prompts
+server.setRequestHandler(ListPromptsRequestSchema, async () => {
+  return {
+    prompts: getPromptDefinitions(),
+  };
+});
+
+server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+  const { name, arguments: args } = request.params;
+  return await getPrompt(name, args);
+});
+
+// Tell subscribers when the scene graph changes
+onResourceUpdated((uri) => {
+  server.sendResourceUpdated({ uri }).catch(() => {
+    // Client gone - nothing to notify
+  });
+});
+
+onResourceListChanged(() => {
+  server.sendResourceListChanged().catch(() => {
+    // Client gone - nothing to notify
+  });
+});
+
 // ========================================================================
 // Server Startup
 // ========================================================================
@@ -58,19 +216,26 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
+  startHealthMonitor();
 
   // Handle graceful shutdown
   process.on('SIGTERM', () => {
-    closePersistentConnection();
+    stopResourcePolling();
+    closeAllConnections();
     process.exit(0);
   });
 
   process.on('SIGINT', () => {
-    closePersistentConnection();
+    stopResourcePolling();
+    closeAllConnections();
     process.exit(0);
   });
 
-  console.error('[Scenic MCP] Server started - monitoring for Scenic applications');
+  const endpoint = config.socketPath ?? `${config.host}:${config.port}`;
+  console.error(`[Scenic MCP] Server started - monitoring for Scenic applications on ${endpoint}`);
+  if (config.toolProfile !== 'full' || config.allowTools || config.denyTools) {
+    console.error(`[Scenic MCP] Tool policy: ${config.toolProfile} profile, ${getToolDefinitions().length} tools exposed`);
+  }
 }
 
 main().catch((error) => {
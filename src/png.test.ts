@@ -0,0 +1,77 @@
+import * as zlib from 'zlib';
+import { cropImage, decodePng, encodePng, fitImage, RgbaImage } from './png.js';
+
+// A 4x3 image where every pixel is distinct
+function gradient(width = 4, height = 3): RgbaImage {
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([i * 10, 255 - i * 10, i % 2 ? 255 : 0, 200], i * 4);
+  }
+  return { width, height, data };
+}
+
+describe('PNG codec', () => {
+  it('round-trips an RGBA image', () => {
+    const image = gradient();
+    const decoded = decodePng(encodePng(image));
+
+    expect(decoded.width).toBe(4);
+    expect(decoded.height).toBe(3);
+    expect(decoded.data.equals(image.data)).toBe(true);
+  });
+
+  it('decodes RGB images with filtered scanlines to RGBA', () => {
+    // 2x2 RGB, first row unfiltered, second row Sub-filtered
+    const raw = Buffer.from([0, 10, 20, 30, 40, 50, 60, 1, 70, 80, 90, 5, 5, 5]);
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(2, 0);
+    ihdr.writeUInt32BE(2, 4);
+    ihdr[8] = 8;
+    ihdr[9] = 2;
+
+    const png = Buffer.concat([PNG_SIGNATURE, chunk('IHDR', ihdr), chunk('IDAT', zlib.deflateSync(raw)), chunk('IEND', Buffer.alloc(0))]);
+
+    expect([...decodePng(png).data]).toEqual([10, 20, 30, 255, 40, 50, 60, 255, 70, 80, 90, 255, 75, 85, 95, 255]);
+  });
+
+  it('rejects data that is not a PNG', () => {
+    expect(() => decodePng(Buffer.from('GIF89a not a png'))).toThrow('Not a PNG file');
+  });
+});
+
+describe('cropImage', () => {
+  it('crops to a region clamped to the image', () => {
+    const cropped = cropImage(gradient(), { x: 2, y: 1, width: 10, height: 10 });
+
+    expect(cropped.width).toBe(2);
+    expect(cropped.height).toBe(2);
+    expect([...cropped.data.subarray(0, 4)]).toEqual([...gradient().data.subarray(24, 28)]);
+  });
+
+  it('rejects a region outside the image', () => {
+    expect(() => cropImage(gradient(), { x: 10, y: 10, width: 5, height: 5 })).toThrow('outside the 4x3 image');
+  });
+});
+
+describe('fitImage', () => {
+  it('downscales preserving the aspect ratio', () => {
+    const fitted = fitImage({ width: 8, height: 4, data: Buffer.alloc(8 * 4 * 4, 100) }, 4);
+
+    expect([fitted.width, fitted.height]).toEqual([4, 2]);
+    expect(fitted.data.every((value) => value === 100)).toBe(true);
+  });
+
+  it('leaves images that already fit untouched', () => {
+    const image = gradient();
+    expect(fitImage(image, 100, 100)).toBe(image);
+  });
+});
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// The decoder does not verify checksums, so the CRC is left as zero
+function chunk(type: string, body: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length, 0);
+  return Buffer.concat([length, Buffer.from(type, 'ascii'), body, Buffer.alloc(4)]);
+}
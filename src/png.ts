@@ -0,0 +1,307 @@
+/**
+ * Minimal PNG support for Scenic MCP
+ *
+ * Decodes and encodes 8-bit, non-interlaced PNGs using only Node's zlib, so screenshots
+ * can be cropped and downscaled before they are returned to the MCP client.
+ * Images are always handled as 8-bit RGBA in memory.
+ */
+
+import * as zlib from 'zlib';
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Channels per pixel for each PNG color type
+const CHANNELS: Record<number, number> = {
+  0: 1, // greyscale
+  2: 3, // RGB
+  3: 1, // palette index
+  4: 2, // greyscale + alpha
+  6: 4, // RGBA
+};
+
+// ========================================================================
+// CRC32 (required for PNG chunk checksums)
+// ========================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buf: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < buf.length; i++) {
+    crc = CRC_TABLE[(crc ^ buf[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ========================================================================
+// Decoding
+// ========================================================================
+
+export function decodePng(buf: Buffer): RgbaImage {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset < buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = buf.toString('ascii', offset + 4, offset + 8);
+    const chunk = buf.subarray(offset + 8, offset + 8 + length);
+    offset += length + 12;
+
+    if (type === 'IHDR') {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      interlace = chunk[12];
+    } else if (type === 'PLTE') {
+      palette = chunk;
+    } else if (type === 'tRNS') {
+      transparency = chunk;
+    } else if (type === 'IDAT') {
+      idat.push(chunk);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+
+  const channels = CHANNELS[colorType];
+  if (!channels || bitDepth !== 8 || interlace !== 0) {
+    throw new Error(
+      `Unsupported PNG format (color type ${colorType}, bit depth ${bitDepth}, interlace ${interlace})`
+    );
+  }
+
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const pixels = Buffer.alloc(stride * height);
+  unfilter(raw, pixels, stride, height, channels);
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let i = 0, p = 0; i < width * height; i++, p += channels) {
+    const o = i * 4;
+    switch (colorType) {
+      case 0:
+        data[o] = data[o + 1] = data[o + 2] = pixels[p];
+        data[o + 3] = 255;
+        break;
+      case 2:
+        data[o] = pixels[p];
+        data[o + 1] = pixels[p + 1];
+        data[o + 2] = pixels[p + 2];
+        data[o + 3] = 255;
+        break;
+      case 3: {
+        const index = pixels[p];
+        data[o] = palette ? palette[index * 3] : 0;
+        data[o + 1] = palette ? palette[index * 3 + 1] : 0;
+        data[o + 2] = palette ? palette[index * 3 + 2] : 0;
+        data[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+        break;
+      }
+      case 4:
+        data[o] = data[o + 1] = data[o + 2] = pixels[p];
+        data[o + 3] = pixels[p + 1];
+        break;
+      case 6:
+        pixels.copy(data, o, p, p + 4);
+        break;
+    }
+  }
+
+  return { width, height, data };
+}
+
+function unfilter(raw: Buffer, out: Buffer, stride: number, height: number, bpp: number) {
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+    const prev = dst - stride;
+
+    for (let x = 0; x < stride; x++) {
+      const left = x >= bpp ? out[dst + x - bpp] : 0;
+      const up = y > 0 ? out[prev + x] : 0;
+      const upLeft = y > 0 && x >= bpp ? out[prev + x - bpp] : 0;
+      let value = raw[src + x];
+
+      switch (filter) {
+        case 1:
+          value += left;
+          break;
+        case 2:
+          value += up;
+          break;
+        case 3:
+          value += (left + up) >> 1;
+          break;
+        case 4:
+          value += paeth(left, up, upLeft);
+          break;
+      }
+
+      out[dst + x] = value & 0xff;
+    }
+  }
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+// ========================================================================
+// Encoding
+// ========================================================================
+
+export function encodePng(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  const stride = width * 4;
+
+  // Filter type 0 (None) on every scanline keeps the encoder simple
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    data.copy(raw, y * (stride + 1) + 1, y * stride, (y + 1) * stride);
+  }
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', ihdr),
+    chunk('IDAT', zlib.deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function chunk(type: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, 'ascii');
+
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), body])), 0);
+
+  return Buffer.concat([header, body, crc]);
+}
+
+// ========================================================================
+// Transforms
+// ========================================================================
+
+/**
+ * Crop an image to a region. The region is clamped to the image bounds.
+ */
+export function cropImage(image: RgbaImage, region: Region): RgbaImage {
+  const left = Math.max(0, Math.floor(region.x));
+  const top = Math.max(0, Math.floor(region.y));
+  const right = Math.min(image.width, Math.ceil(region.x + region.width));
+  const bottom = Math.min(image.height, Math.ceil(region.y + region.height));
+
+  if (right <= left || bottom <= top) {
+    throw new Error(
+      `Crop region (${region.x}, ${region.y}, ${region.width}x${region.height}) is outside the ${image.width}x${image.height} image`
+    );
+  }
+
+  const width = right - left;
+  const height = bottom - top;
+  const data = Buffer.alloc(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const src = ((top + y) * image.width + left) * 4;
+    image.data.copy(data, y * width * 4, src, src + width * 4);
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Downscale an image to fit within maxWidth x maxHeight, preserving aspect ratio.
+ * Uses box averaging so text stays legible. Images already small enough are returned as-is.
+ */
+export function fitImage(image: RgbaImage, maxWidth?: number, maxHeight?: number): RgbaImage {
+  const scale = Math.min(
+    1,
+    maxWidth ? maxWidth / image.width : 1,
+    maxHeight ? maxHeight / image.height : 1
+  );
+
+  if (scale >= 1) return image;
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = Buffer.alloc(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor((y * image.height) / height);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * image.height) / height));
+
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor((x * image.width) / width);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * image.width) / width));
+      const sum = [0, 0, 0, 0];
+
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const p = (sy * image.width + sx) * 4;
+          sum[0] += image.data[p];
+          sum[1] += image.data[p + 1];
+          sum[2] += image.data[p + 2];
+          sum[3] += image.data[p + 3];
+        }
+      }
+
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      data[o] = Math.round(sum[0] / count);
+      data[o + 1] = Math.round(sum[1] / count);
+      data[o + 2] = Math.round(sum[2] / count);
+      data[o + 3] = Math.round(sum[3] / count);
+    }
+  }
+
+  return { width, height, data };
+}
@@ -0,0 +1,263 @@
+/**
+ * MCP prompts for Scenic MCP
+ *
+ * Ready-made instructions for the common testing workflows (exploring an app,
+ * reproducing a bug, writing an ExUnit test), so nobody has to rediscover the right
+ * tool sequence by hand. Each prompt can target a port and an element, and embeds
+ * live inspect_viewport output from the app on that port.
+ */
+
+import { ConnectionContext, getConnectionContext, getDefaultPort, listSessions } from './connection.js';
+import { resolveSelector, SemanticElement } from './selector.js';
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  instructions: (target: PromptTarget, args: Record<string, string>) => string;
+}
+
+interface PromptTarget {
+  port: number;
+  session: string | null;
+  active: boolean;
+  element: string | null;
+}
+
+const PORT_ARGUMENT: PromptArgument = {
+  name: 'port',
+  description: 'TCP port of the Scenic app (default: the configured port)',
+};
+
+const ELEMENT_ARGUMENT: PromptArgument = {
+  name: 'element',
+  description: 'Element to focus on: an element id or a selector such as text="Save" or #dialog button',
+};
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'explore_app',
+    description: 'Explore a Scenic app and list all of its interactive elements',
+    arguments: [PORT_ARGUMENT, ELEMENT_ARGUMENT],
+    instructions: (target) =>
+      [
+        `Explore the Scenic app on port ${target.port} and list every interactive element.`,
+        '',
+        connectStep(target),
+        `2. Call find_clickable_elements${target.element ? ` with selector ${JSON.stringify(scopeSelector(target.element))}` : ''} to get ids, types, labels and bounds.`,
+        '3. Call take_screenshot to see the screen, and get_rendered_text to read the visible text.',
+        '4. Use hover_element on anything whose purpose is unclear, and take another screenshot if the UI reacts.',
+        '',
+        'Report a table of the interactive elements (id, type, label, position, what it appears to do),',
+        'then note anything that looks broken, unlabelled or unreachable. Do not click elements that could',
+        'change or delete data unless asked to.',
+      ].join('\n'),
+  },
+  {
+    name: 'reproduce_bug',
+    description: 'Reproduce a bug from a list of steps and capture evidence',
+    arguments: [
+      {
+        name: 'steps',
+        description: 'Steps to reproduce, one per line',
+        required: true,
+      },
+      {
+        name: 'expected',
+        description: 'What should happen instead',
+      },
+      PORT_ARGUMENT,
+      ELEMENT_ARGUMENT,
+    ],
+    instructions: (target, args) =>
+      [
+        `Reproduce a bug in the Scenic app on port ${target.port}.`,
+        '',
+        'Steps to reproduce:',
+        indent(args.steps),
+        ...(args.expected ? ['', 'Expected behaviour:', indent(args.expected)] : []),
+        '',
+        connectStep(target),
+        '2. Call start_recording with a short name for the bug, and take_screenshot for the starting state.',
+        '3. Perform each step with click_element, send_keys, drag or wait_for. Prefer element ids and selectors',
+        '   over raw coordinates, and take a screenshot after any step where the UI changes.',
+        target.element
+          ? `4. Pay particular attention to ${target.element}: check its text with get_rendered_text and its state with find_clickable_elements.`
+          : '4. Check the outcome with get_rendered_text, assert_text and find_clickable_elements.',
+        '5. Call stop_recording with format "both" so the reproduction can be replayed with run_scenario.',
+        '',
+        'Report whether the bug reproduced, the exact tool calls that triggered it, the screenshots that show',
+        'it, and the recorded scenario.',
+      ].join('\n'),
+  },
+  {
+    name: 'write_exunit_test',
+    description: 'Write an ExUnit test for the current screen',
+    arguments: [
+      {
+        name: 'test_name',
+        description: 'Name of the test (e.g., "saves a new note")',
+      },
+      PORT_ARGUMENT,
+      ELEMENT_ARGUMENT,
+    ],
+    instructions: (target, args) =>
+      [
+        `Write an ExUnit test for the current screen of the Scenic app on port ${target.port}` +
+          (target.element ? `, focused on ${target.element}.` : '.'),
+        '',
+        connectStep(target),
+        `2. Call start_recording with name ${JSON.stringify(args.test_name || 'current screen')}.`,
+        '3. Exercise the screen with click_element, send_keys and drag, and check each result with assert_text',
+        '   or wait_for so the test has real assertions, not just inputs.',
+        '4. Call stop_recording with format "exunit" and an exunit_path under test/.',
+        '',
+        'Then review the generated test: give it a descriptive name, remove redundant steps, and make sure',
+        'every assertion would fail if the behaviour broke.',
+      ].join('\n'),
+  },
+];
+
+// ========================================================================
+// Listing and Rendering
+// ========================================================================
+
+export function getPromptDefinitions() {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+}
+
+export async function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}. Available prompts: ${PROMPTS.map((p) => p.name).join(', ')}`);
+  }
+
+  const missing = prompt.arguments.filter((a) => a.required && !args[a.name]?.trim());
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s) for ${name}: ${missing.map((a) => a.name).join(', ')}`);
+  }
+
+  const target = resolveTarget(args);
+  const snapshot = await liveSnapshot(target);
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user' as const,
+        content: {
+          type: 'text' as const,
+          text: `${prompt.instructions(target, args)}\n\n${snapshot}`,
+        },
+      },
+    ],
+  };
+}
+
+function resolveTarget(args: Record<string, string>): PromptTarget {
+  let port = getDefaultPort();
+
+  if (args.port !== undefined && args.port.trim() !== '') {
+    if (!/^\d+$/.test(args.port.trim())) {
+      throw new Error(`"port" must be a port number (got "${args.port}")`);
+    }
+    port = Number(args.port.trim());
+  }
+
+  // Prefer the active session when several are connected to the same port
+  const sessions = listSessions()
+    .filter((s) => s.port === port)
+    .sort((a, b) => Number(b.active) - Number(a.active));
+
+  return {
+    port,
+    session: sessions[0]?.name ?? null,
+    active: sessions[0]?.active ?? false,
+    element: args.element?.trim() || null,
+  };
+}
+
+function connectStep(target: PromptTarget): string {
+  if (!target.session) {
+    return `1. Call connect_scenic({ port: ${target.port} }) to connect to the app.`;
+  }
+  return target.active
+    ? `1. Call get_scenic_status to confirm the app is connected (session "${target.session}" is on port ${target.port}).`
+    : `1. Call switch_session({ name: "${target.session}" }) to make the session on port ${target.port} active.`;
+}
+
+// Everything inside the target (an id or a selector)
+function scopeSelector(element: string): string {
+  return /^[\w:-]+$/.test(element) ? `#${element} *` : `${element} *`;
+}
+
+function indent(text: string): string {
+  return text
+    .trim()
+    .split('\n')
+    .map((line) => `  ${line.trim()}`)
+    .join('\n');
+}
+
+// ========================================================================
+// Live Viewport Snapshot
+// ========================================================================
+
+async function liveSnapshot(target: PromptTarget): Promise<string> {
+  if (!target.session) {
+    return `Live viewport: no session is connected to port ${target.port} yet, so connect first and then call inspect_viewport.`;
+  }
+
+  const conn = getConnectionContext(target.session);
+
+  try {
+    if (!(await conn.checkTCPServer())) {
+      return `Live viewport: no Scenic app is answering on port ${target.port}. Start the app, then connect.`;
+    }
+
+    const viewport = await query(conn, { action: 'inspect_viewport' });
+    let text = `Current viewport (live inspect_viewport output):\n\`\`\`json\n${JSON.stringify(viewport, null, 2)}\n\`\`\``;
+
+    if (target.element) {
+      text += `\n\n${await describeTarget(conn, target.element)}`;
+    }
+
+    return text;
+  } catch (error) {
+    return `Live viewport: could not inspect the app on port ${target.port}: ${error instanceof Error ? error.message : error}`;
+  }
+}
+
+async function describeTarget(conn: ConnectionContext, element: string): Promise<string> {
+  const data = await query(conn, { action: 'find_clickable', all: true });
+  const elements: SemanticElement[] = data.elements || [];
+
+  let matches = elements.filter((el) => String(el.id).replace(/^:/, '') === element.replace(/^:/, ''));
+  if (matches.length === 0) {
+    try {
+      matches = resolveSelector(elements, element);
+    } catch {
+      // Not an id and not a valid selector either
+    }
+  }
+
+  if (matches.length === 0) {
+    return `Target element: nothing currently matches ${JSON.stringify(element)}. It may not be on screen yet.`;
+  }
+
+  return `Target element(s) matching ${JSON.stringify(element)}:\n\`\`\`json\n${JSON.stringify(matches, null, 2)}\n\`\`\``;
+}
+
+async function query(conn: ConnectionContext, command: any): Promise<any> {
+  const data = JSON.parse(await conn.sendToElixir(command));
+  if (data.error) {
+    throw new Error(data.error);
+  }
+  return data;
+}
@@ -0,0 +1,284 @@
+/**
+ * Interaction recorder for Scenic MCP
+ *
+ * Captures the sequence of tool calls made during a session so an exploratory run
+ * with an agent can be exported as a replayable JSON scenario or as an ExUnit test
+ * built on ScenicMcp.Probes.
+ */
+
+// Tools worth replaying: input, element interactions, screenshots and assertions.
+// Inspection and connection tools are left out of recordings.
+const RECORDED_TOOLS = new Set([
+  'send_keys',
+  'send_mouse_move',
+  'send_mouse_click',
+  'send_mouse_down',
+  'send_mouse_up',
+  'send_scroll',
+  'drag',
+  'click_element',
+  'hover_element',
+  'take_screenshot',
+  'wait_for',
+  'assert_text',
+]);
+
+export interface ScenarioStep {
+  tool: string;
+  args: Record<string, any>;
+}
+
+export interface Scenario {
+  name: string;
+  recorded_at: string;
+  steps: ScenarioStep[];
+}
+
+interface Recording {
+  scenario: Scenario;
+  skipped: number;
+}
+
+let activeRecording: Recording | null = null;
+
+// ========================================================================
+// Recording State
+// ========================================================================
+
+export function startRecording(name: string) {
+  if (activeRecording) {
+    throw new Error(`Already recording "${activeRecording.scenario.name}". Stop it with stop_recording first.`);
+  }
+
+  activeRecording = {
+    scenario: { name, recorded_at: new Date().toISOString(), steps: [] },
+    skipped: 0,
+  };
+}
+
+export function stopRecording(): { scenario: Scenario; skipped: number } {
+  if (!activeRecording) {
+    throw new Error('Not recording. Start a recording with start_recording first.');
+  }
+
+  const recording = activeRecording;
+  activeRecording = null;
+  return recording;
+}
+
+/**
+ * Record a tool call if a recording is active. Failed calls are not recorded
+ * (only counted), so the exported scenario reflects what actually worked.
+ */
+export function recordToolCall(tool: string, args: any, result: any) {
+  if (!activeRecording || !RECORDED_TOOLS.has(tool)) return;
+
+  if (result?.isError) {
+    activeRecording.skipped++;
+    return;
+  }
+
+  activeRecording.scenario.steps.push({ tool, args: withResolvedTargets(tool, { ...(args || {}) }, result) });
+}
+
+// Selectors only exist in the TypeScript layer. Keep what they resolved to alongside
+// them so the ExUnit export has a concrete element id or point to target.
+function withResolvedTargets(tool: string, args: Record<string, any>, result: any): Record<string, any> {
+  const data = result?.structuredContent;
+  if (!data) return args;
+
+  if ((tool === 'click_element' || tool === 'hover_element') && args.selector && data.element?.id) {
+    args.resolved_element_id = data.element.id;
+  }
+  if (tool === 'drag' && (args.from_selector || args.to_selector) && data.from && data.to) {
+    args.resolved_from = data.from;
+    args.resolved_to = data.to;
+  }
+
+  return args;
+}
+
+// ========================================================================
+// ExUnit Export
+// ========================================================================
+
+export function scenarioToExUnit(scenario: Scenario): string {
+  const body: string[] = [];
+  let needsWaitHelper = false;
+
+  for (const step of scenario.steps) {
+    const lines = stepToElixir(step);
+    if (step.tool === 'wait_for') needsWaitHelper = true;
+    body.push(...lines);
+  }
+
+  const moduleName = `${toModuleName(scenario.name)}Test`;
+  let out = `defmodule ${moduleName} do\n`;
+  out += `  use ExUnit.Case, async: false\n\n`;
+  out += `  # Recorded with scenic-mcp on ${scenario.recorded_at}\n`;
+  out += `  test ${elixirString(scenario.name)} do\n`;
+  out += body.map((line) => `    ${line}`).join('\n');
+  out += `\n  end\n`;
+
+  if (needsWaitHelper) {
+    out += `
+  defp wait_until(condition, timeout_ms) do
+    cond do
+      condition.() ->
+        true
+
+      timeout_ms <= 0 ->
+        false
+
+      true ->
+        Process.sleep(50)
+        wait_until(condition, timeout_ms - 50)
+    end
+  end
+`;
+  }
+
+  out += `end\n`;
+  return out;
+}
+
+function stepToElixir(step: ScenarioStep): string[] {
+  const a = step.args;
+
+  switch (step.tool) {
+    case 'send_keys':
+      if (a.text) return [`ScenicMcp.Probes.send_text(${elixirString(a.text)})`];
+      return [`ScenicMcp.Probes.send_keys(${elixirString(a.key)}, [${(a.modifiers || []).map((m: string) => `:${m}`).join(', ')}])`];
+    case 'send_mouse_move':
+      return [`ScenicMcp.Probes.send_mouse_move(${a.x}, ${a.y})`];
+    case 'send_mouse_click':
+      if ((a.button && a.button !== 'left') || a.click_count > 1) {
+        return [`{:ok, _} = ScenicMcp.Tools.handle_mouse_click(${elixirTerm(pick(a, ['x', 'y', 'button', 'click_count']))})`];
+      }
+      return [`ScenicMcp.Probes.click(${a.x}, ${a.y})`];
+    case 'send_mouse_down':
+      return [`ScenicMcp.Probes.mouse_down(${a.x}, ${a.y})`];
+    case 'send_mouse_up':
+      return [`ScenicMcp.Probes.mouse_up(${a.x}, ${a.y})`];
+    case 'send_scroll':
+      return [`ScenicMcp.Probes.send_scroll(${a.dx}, ${a.dy}, ${a.x ?? 400}, ${a.y ?? 300})`];
+    case 'drag':
+      return [`{:ok, _} = ScenicMcp.Tools.handle_drag(${elixirTerm(dragParams(a))})`];
+    case 'click_element': {
+      const element_id = a.resolved_element_id ?? a.element_id;
+      const options = pick(a, ['button', 'click_count', 'offset', 'modifiers']);
+      if (Object.keys(options).length > 0) {
+        return [`{:ok, _} = ScenicMcp.Tools.click_element(${elixirTerm({ element_id, ...options })})`];
+      }
+      return [`ScenicMcp.Probes.click_element(${elixirString(element_id)})`];
+    }
+    case 'hover_element':
+      return [`{:ok, _} = ScenicMcp.Tools.hover_element(${elixirTerm({ element_id: a.resolved_element_id ?? a.element_id, offset: a.offset })})`];
+    case 'take_screenshot':
+      return [`ScenicMcp.Probes.take_screenshot(${elixirString(screenshotName(a.filename))})`];
+    case 'wait_for':
+      if (a.selector) {
+        return [`# Selector waits are not exported: wait_for ${JSON.stringify(omit(a, ['session', 'command_timeout_ms']))}`];
+      }
+      return [`assert wait_until(fn -> ${waitConditionToElixir(a)} end, ${a.timeout_ms ?? 5000})`];
+    case 'assert_text':
+      return assertTextToElixir(a);
+    default:
+      return [`# Unsupported step: ${step.tool} ${JSON.stringify(a)}`];
+  }
+}
+
+function waitConditionToElixir(a: any): string {
+  switch (a.condition) {
+    case 'text_visible':
+      return `ScenicMcp.Query.text_visible?(${elixirString(a.text)})`;
+    case 'text_absent':
+      return `not ScenicMcp.Query.text_visible?(${elixirString(a.text)})`;
+    case 'element_present':
+      return `match?({:ok, %{count: count}} when count > 0, ScenicMcp.Tools.find_clickable_elements(%{"filter" => ${elixirString(a.element_id)}}))`;
+    case 'element_absent':
+      return `match?({:ok, %{count: 0}}, ScenicMcp.Tools.find_clickable_elements(%{"filter" => ${elixirString(a.element_id)}}))`;
+    default:
+      // scripts_changed depends on state captured at the start of the wait, so just give the scene time to render
+      return `Process.sleep(${a.timeout_ms ?? 500}) == :ok`;
+  }
+}
+
+// Replace selectors with the points they resolved to while recording
+function dragParams(a: any): Record<string, any> {
+  const params = omit(a, ['session', 'command_timeout_ms', 'from_selector', 'to_selector', 'resolved_from', 'resolved_to']);
+  if (a.from_selector && a.resolved_from) {
+    params.from_x = a.resolved_from.x;
+    params.from_y = a.resolved_from.y;
+  }
+  if (a.to_selector && a.resolved_to) {
+    params.to_x = a.resolved_to.x;
+    params.to_y = a.resolved_to.y;
+  }
+  return params;
+}
+
+function assertTextToElixir(a: any): string[] {
+  const lines: string[] = [];
+
+  if (a.text !== undefined) {
+    const visible = a.visible ?? true;
+    lines.push(`${visible ? 'assert' : 'refute'} ScenicMcp.Query.text_visible?(${elixirString(a.text)})`);
+    if (a.line !== undefined) {
+      lines.push(`assert ScenicMcp.Query.text_on_line?(${a.line}, ${elixirString(a.text)})`);
+    }
+    if (a.wraps !== undefined) {
+      lines.push(`${a.wraps ? 'assert' : 'refute'} ScenicMcp.Query.text_wraps?(${elixirString(a.text)})`);
+    }
+  }
+
+  if (a.line_count !== undefined) {
+    lines.push(`assert ScenicMcp.Query.line_count() == ${a.line_count}`);
+  }
+
+  return lines;
+}
+
+// ========================================================================
+// Elixir Formatting Helpers
+// ========================================================================
+
+// JSON string escapes are valid in Elixir strings; only interpolation needs guarding
+function elixirString(value: string): string {
+  return JSON.stringify(String(value)).replace(/#\{/g, '\\#{');
+}
+
+function elixirTerm(value: any): string {
+  if (value === null || value === undefined) return 'nil';
+  if (typeof value === 'string') return elixirString(value);
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return `[${value.map(elixirTerm).join(', ')}]`;
+
+  const entries = Object.entries(value)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${elixirString(k)} => ${elixirTerm(v)}`);
+  return `%{${entries.join(', ')}}`;
+}
+
+function toModuleName(name: string): string {
+  const camel = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[A-Z]/.test(camel) ? camel : `Recorded${camel}`;
+}
+
+// Probes.take_screenshot writes into test/spex/screenshots, so keep only the basename
+function screenshotName(filename?: string): string {
+  if (!filename) return 'screenshot';
+  return filename.split('/').pop()!.replace(/\.png$/, '');
+}
+
+function pick(obj: any, keys: string[]): Record<string, any> {
+  return Object.fromEntries(keys.filter((k) => obj[k] !== undefined).map((k) => [k, obj[k]]));
+}
+
+function omit(obj: any, keys: string[]): Record<string, any> {
+  return Object.fromEntries(Object.entries(obj).filter(([k]) => !keys.includes(k)));
+}
@@ -0,0 +1,194 @@
+/**
+ * MCP resources for Scenic MCP
+ *
+ * Exposes the active session's scene graph as read-only resources:
+ *   scenic://viewport       viewport summary and script table (inspect_viewport)
+ *   scenic://script/{id}    draw operations of one compiled script
+ *   scenic://semantic       semantic element table (buttons, text fields, ...)
+ *
+ * Subscribed resources are watched by polling script hashes from the Elixir side;
+ * a change fires an update notification, and added or removed scripts fire a
+ * list-changed notification. Polling only runs while something is subscribed.
+ */
+
+import { ConnectionContext, getConnectionContext } from './connection.js';
+
+export const VIEWPORT_URI = 'scenic://viewport';
+export const SEMANTIC_URI = 'scenic://semantic';
+const SCRIPT_URI_PREFIX = 'scenic://script/';
+const MIME_TYPE = 'application/json';
+
+const POLL_INTERVAL = 1000;
+
+interface ScriptVersions {
+  scripts: Record<string, number>;
+  semantic: number | null;
+}
+
+// ========================================================================
+// Listing and Reading
+// ========================================================================
+
+export function getResourceTemplates() {
+  return [
+    {
+      uriTemplate: `${SCRIPT_URI_PREFIX}{id}`,
+      name: 'Scenic script',
+      description: 'Draw operations of one compiled script in the viewport. Ids are listed by scenic://viewport.',
+      mimeType: MIME_TYPE,
+    },
+  ];
+}
+
+export async function listResources() {
+  const resources = [
+    {
+      uri: VIEWPORT_URI,
+      name: 'Viewport',
+      description: 'Viewport summary and script table of the active Scenic app',
+      mimeType: MIME_TYPE,
+    },
+    {
+      uri: SEMANTIC_URI,
+      name: 'Semantic elements',
+      description: 'Semantic element table (buttons, text fields, labels) with bounds',
+      mimeType: MIME_TYPE,
+    },
+  ];
+
+  // Scripts are only listed while an app is reachable
+  const versions = await fetchVersions(getConnectionContext());
+  for (const id of Object.keys(versions?.scripts ?? {}).sort()) {
+    resources.push({
+      uri: scriptUri(id),
+      name: `Script ${id}`,
+      description: `Draw operations of script ${id}`,
+      mimeType: MIME_TYPE,
+    });
+  }
+
+  return resources;
+}
+
+export async function readResource(uri: string) {
+  const conn = getConnectionContext();
+  let command: any;
+
+  if (uri === VIEWPORT_URI) {
+    command = { action: 'inspect_viewport' };
+  } else if (uri === SEMANTIC_URI) {
+    command = { action: 'get_semantic_table' };
+  } else if (uri.startsWith(SCRIPT_URI_PREFIX) && uri.length > SCRIPT_URI_PREFIX.length) {
+    command = { action: 'get_script', id: decodeURIComponent(uri.slice(SCRIPT_URI_PREFIX.length)) };
+  } else {
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  const isRunning = await conn.checkTCPServer();
+  if (!isRunning) {
+    throw new Error(`No Scenic application found on ${conn.describeEndpoint()} (session "${conn.sessionName}")`);
+  }
+
+  const data = JSON.parse(await conn.sendToElixir(command));
+  if (data.error) {
+    throw new Error(data.error);
+  }
+
+  return {
+    contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }],
+  };
+}
+
+function scriptUri(id: string): string {
+  return `${SCRIPT_URI_PREFIX}${encodeURIComponent(id)}`;
+}
+
+async function fetchVersions(conn: ConnectionContext): Promise<ScriptVersions | null> {
+  try {
+    if (!(await conn.checkTCPServer())) return null;
+    const data = JSON.parse(await conn.sendToElixir({ action: 'script_versions' }, 1));
+    return data.error ? null : { scripts: data.scripts ?? {}, semantic: data.semantic ?? null };
+  } catch {
+    return null;
+  }
+}
+
+// ========================================================================
+// Subscriptions
+// ========================================================================
+
+type UpdateListener = (uri: string) => void;
+type ListChangedListener = () => void;
+
+const subscriptions = new Set<string>();
+const updateListeners: UpdateListener[] = [];
+const listChangedListeners: ListChangedListener[] = [];
+
+let pollTimer: NodeJS.Timeout | null = null;
+let pollInFlight = false;
+let lastVersions: ScriptVersions | null = null;
+
+export function onResourceUpdated(listener: UpdateListener) {
+  updateListeners.push(listener);
+}
+
+export function onResourceListChanged(listener: ListChangedListener) {
+  listChangedListeners.push(listener);
+}
+
+export function subscribeResource(uri: string) {
+  subscriptions.add(uri);
+  if (!pollTimer) {
+    pollTimer = setInterval(poll, POLL_INTERVAL);
+    // Never keep the process alive just to poll
+    pollTimer.unref();
+    poll();
+  }
+}
+
+export function unsubscribeResource(uri: string) {
+  subscriptions.delete(uri);
+  if (subscriptions.size === 0) stopResourcePolling();
+}
+
+export function stopResourcePolling() {
+  if (pollTimer) clearInterval(pollTimer);
+  pollTimer = null;
+  lastVersions = null;
+}
+
+async function poll() {
+  if (pollInFlight) return;
+  pollInFlight = true;
+
+  try {
+    const versions = await fetchVersions(getConnectionContext());
+    // An unreachable app keeps the last snapshot, so a restart shows up as changes
+    if (!versions) return;
+
+    const previous = lastVersions;
+    lastVersions = versions;
+    if (!previous || !pollTimer) return;
+
+    const ids = new Set([...Object.keys(previous.scripts), ...Object.keys(versions.scripts)]);
+    const changed = [...ids].filter((id) => previous.scripts[id] !== versions.scripts[id]);
+    const added = changed.filter((id) => !(id in previous.scripts));
+    const removed = changed.filter((id) => !(id in versions.scripts));
+    const semanticChanged = previous.semantic !== versions.semantic;
+
+    if (changed.length > 0 || semanticChanged) notifyUpdated(VIEWPORT_URI);
+    if (semanticChanged) notifyUpdated(SEMANTIC_URI);
+    changed.forEach((id) => notifyUpdated(scriptUri(id)));
+
+    if (added.length > 0 || removed.length > 0) {
+      listChangedListeners.forEach((listener) => listener());
+    }
+  } finally {
+    pollInFlight = false;
+  }
+}
+
+function notifyUpdated(uri: string) {
+  if (!subscriptions.has(uri)) return;
+  updateListeners.forEach((listener) => listener(uri));
+}
@@ -0,0 +1,85 @@
+import { parseSelector, resolveSelector, selectOne, SemanticElement } from './selector.js';
+
+const button = (id: string, label: string, top: number, left: number, parent: string | null = null): SemanticElement => ({
+  id,
+  type: ':button',
+  label,
+  parent,
+  bounds: { left, top, width: 80, height: 20 },
+});
+
+const ELEMENTS: SemanticElement[] = [
+  { id: ':dialog', type: ':group', bounds: { left: 0, top: 100, width: 400, height: 200 } },
+  { id: ':toolbar', type: ':group', bounds: { left: 0, top: 0, width: 400, height: 40 } },
+  button(':save_button', 'Save', 10, 10, ':toolbar'),
+  button(':save_as_button', 'Save As', 10, 100, ':toolbar'),
+  button(':ok_button', 'OK', 250, 200, ':dialog'),
+  button(':cancel_button', 'Cancel', 250, 300, ':dialog'),
+];
+
+const ids = (selector: string) => resolveSelector(ELEMENTS, selector).map((el) => el.id);
+
+describe('parseSelector', () => {
+  it('parses compounds and combinators', () => {
+    expect(parseSelector('#dialog > button[label^="Ca"]:last')).toEqual([
+      { combinator: 'descendant', compound: { id: 'dialog', attributes: [] } },
+      {
+        combinator: 'child',
+        compound: {
+          type: 'button',
+          attributes: [{ name: 'label', op: '^=', value: 'Ca', ignoreCase: false }],
+          nth: 'last',
+        },
+      },
+    ]);
+  });
+
+  it('treats quoted text= as exact and bare text= as a case-insensitive substring', () => {
+    expect(parseSelector('text="Save"')[0].compound.attributes).toEqual([{ name: 'text', op: '=', value: 'Save', ignoreCase: false }]);
+    expect(parseSelector('text=save')[0].compound.attributes).toEqual([{ name: 'text', op: '*=', value: 'save', ignoreCase: true }]);
+  });
+
+  it.each([
+    ['', 'Empty selector'],
+    ['button >', 'Expected a selector after ">"'],
+    ['button[colour=red]', 'Unknown attribute "colour"'],
+    ['text="Save', 'Unterminated string'],
+    ['button:nth(0)', ':nth() is 1-based'],
+    ['button:second', 'Expected :first, :last or :nth(N)'],
+  ])('rejects %j', (selector, message) => {
+    expect(() => parseSelector(selector)).toThrow(message);
+  });
+});
+
+describe('resolveSelector', () => {
+  it('matches by type, id and label text', () => {
+    expect(ids('button')).toEqual([':save_button', ':save_as_button', ':ok_button', ':cancel_button']);
+    expect(ids('#ok_button')).toEqual([':ok_button']);
+    expect(ids('text="Save"')).toEqual([':save_button']);
+    expect(ids('text=save')).toEqual([':save_button', ':save_as_button']);
+  });
+
+  it('applies :nth in reading order', () => {
+    expect(ids('button:nth(2)')).toEqual([':save_as_button']);
+    expect(ids('button:last')).toEqual([':cancel_button']);
+  });
+
+  it('scopes descendants to their ancestors', () => {
+    expect(ids('#dialog button')).toEqual([':ok_button', ':cancel_button']);
+    expect(ids('#toolbar > button[label$="As"]')).toEqual([':save_as_button']);
+  });
+});
+
+describe('selectOne', () => {
+  it('returns the only match', () => {
+    expect(selectOne(ELEMENTS, '#dialog text=ok').id).toBe(':ok_button');
+  });
+
+  it('lists the candidates when the selector is ambiguous', () => {
+    expect(() => selectOne(ELEMENTS, '#toolbar button')).toThrow(/ambiguous: 2 elements match[\s\S]*:save_as_button/);
+  });
+
+  it('reports a selector that matches nothing', () => {
+    expect(() => selectOne(ELEMENTS, 'text="Delete"')).toThrow('No element matches selector "text=\\"Delete\\""');
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Semantic selector language for Scenic MCP
+ *
+ * Resolves selectors against the semantic elements reported by the Elixir
+ * find_clickable action, so tools can target elements by type, label text,
+ * attributes, position in the match list and ancestry rather than only by exact id.
+ *
+ * Syntax:
+ *   button                  elements of type button
+ *   #save_button            element with id save_button
+ *   text="Save"             label exactly "Save"
+ *   text=save               label containing "save" (case-insensitive)
+ *   button[label^="Sa"]     attribute match: = exact, *= contains, ^= starts with, $= ends with
+ *   button:nth(2)           second match in reading order (also :first, :last)
+ *   #dialog button          button anywhere inside #dialog
+ *   #dialog > button        button whose direct parent is #dialog
+ */
+
+export interface SemanticElement {
+  id: string;
+  type?: string;
+  label?: string;
+  role?: string;
+  bounds?: { left: number; top: number; width: number; height: number };
+  center?: { x: number; y: number };
+  clickable?: boolean;
+  scene?: string;
+  parent?: string | null;
+}
+
+type AttributeOp = '=' | '*=' | '^=' | '$=';
+
+interface AttributeTest {
+  name: string;
+  op: AttributeOp;
+  value: string;
+  ignoreCase: boolean;
+}
+
+interface Compound {
+  type?: string;
+  id?: string;
+  attributes: AttributeTest[];
+  nth?: number | 'last';
+}
+
+interface Step {
+  combinator: 'descendant' | 'child';
+  compound: Compound;
+}
+
+// Attribute names accepted in [...] and what they read from an element
+const ATTRIBUTES: Record<string, (el: SemanticElement) => string | undefined> = {
+  id: (el) => stripColon(el.id),
+  type: (el) => (el.type ? stripColon(el.type) : undefined),
+  label: (el) => el.label ?? undefined,
+  text: (el) => el.label ?? undefined,
+  role: (el) => (el.role ? stripColon(el.role) : undefined),
+};
+
+// ========================================================================
+// Parsing
+// ========================================================================
+
+export function parseSelector(selector: string): Step[] {
+  const parser = new Parser(selector);
+  const steps: Step[] = [];
+  let combinator: Step['combinator'] = 'descendant';
+
+  parser.skipSpaces();
+  while (!parser.done()) {
+    steps.push({ combinator, compound: parser.compound() });
+
+    const hadSpace = parser.skipSpaces();
+    if (parser.peek() === '>') {
+      parser.next();
+      parser.skipSpaces();
+      combinator = 'child';
+    } else if (hadSpace || parser.done()) {
+      combinator = 'descendant';
+    } else {
+      throw parser.error(`Unexpected "${parser.peek()}"`);
+    }
+
+    if (combinator === 'child' && parser.done()) {
+      throw parser.error('Expected a selector after ">"');
+    }
+  }
+
+  if (steps.length === 0) {
+    throw new Error('Empty selector');
+  }
+
+  return steps;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  done(): boolean {
+    return this.pos >= this.input.length;
+  }
+
+  peek(): string {
+    return this.input[this.pos];
+  }
+
+  next(): string {
+    return this.input[this.pos++];
+  }
+
+  skipSpaces(): boolean {
+    const start = this.pos;
+    while (!this.done() && /\s/.test(this.peek())) this.pos++;
+    return this.pos > start;
+  }
+
+  error(message: string): Error {
+    return new Error(`Invalid selector "${this.input}" at position ${this.pos}: ${message}`);
+  }
+
+  compound(): Compound {
+    const compound: Compound = { attributes: [] };
+
+    if (this.input.startsWith('text=', this.pos)) {
+      this.pos += 'text='.length;
+      const quoted = this.peek() === '"' || this.peek() === "'";
+      const value = quoted ? this.quoted() : this.word();
+      compound.attributes.push({ name: 'text', op: quoted ? '=' : '*=', value, ignoreCase: !quoted });
+    } else if (this.peek() === '*') {
+      this.next();
+    } else if (/[\w-]/.test(this.peek() ?? '')) {
+      compound.type = this.word();
+    }
+
+    while (!this.done()) {
+      const c = this.peek();
+      if (c === '#') {
+        this.next();
+        compound.id = stripColon(this.word());
+      } else if (c === '[') {
+        compound.attributes.push(this.attribute());
+      } else if (c === ':') {
+        compound.nth = this.pseudo();
+      } else {
+        break;
+      }
+    }
+
+    if (!compound.type && !compound.id && compound.attributes.length === 0 && compound.nth === undefined) {
+      // Only a bare "*" may match everything
+      if (this.input[this.pos - 1] !== '*') throw this.error('Expected a type, #id, text= or [attribute]');
+    }
+
+    return compound;
+  }
+
+  private word(): string {
+    const match = /^:?[\w-]+/.exec(this.input.slice(this.pos));
+    if (!match) throw this.error('Expected a name');
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private quoted(): string {
+    const quote = this.next();
+    let value = '';
+    while (!this.done() && this.peek() !== quote) {
+      if (this.peek() === '\\') this.next();
+      value += this.next();
+    }
+    if (this.done()) throw this.error('Unterminated string');
+    this.next();
+    return value;
+  }
+
+  private attribute(): AttributeTest {
+    this.next(); // [
+    const name = this.word();
+    if (!ATTRIBUTES[name]) {
+      throw this.error(`Unknown attribute "${name}" (expected one of ${Object.keys(ATTRIBUTES).join(', ')})`);
+    }
+
+    const op = /^(\*=|\^=|\$=|=)/.exec(this.input.slice(this.pos))?.[0] as AttributeOp | undefined;
+    if (!op) throw this.error('Expected =, *=, ^= or $=');
+    this.pos += op.length;
+
+    const value = this.peek() === '"' || this.peek() === "'" ? this.quoted() : this.word();
+    if (this.next() !== ']') throw this.error('Expected "]"');
+
+    return { name, op, value, ignoreCase: false };
+  }
+
+  private pseudo(): number | 'last' {
+    const rest = this.input.slice(this.pos);
+    const match = /^:(first|last|nth\((\d+)\))/.exec(rest);
+    if (!match) throw this.error('Expected :first, :last or :nth(N)');
+    this.pos += match[0].length;
+
+    if (match[1] === 'first') return 1;
+    if (match[1] === 'last') return 'last';
+
+    const n = Number(match[2]);
+    if (n < 1) throw this.error(':nth() is 1-based');
+    return n;
+  }
+}
+
+// ========================================================================
+// Resolution
+// ========================================================================
+
+/**
+ * Resolve a selector to all matching elements, in reading order (top to bottom,
+ * then left to right).
+ */
+export function resolveSelector(elements: SemanticElement[], selector: string): SemanticElement[] {
+  const steps = parseSelector(selector);
+  const ordered = [...elements].sort(readingOrder);
+  const byId = new Map(ordered.map((el) => [el.id, el]));
+
+  let matches: SemanticElement[] = [];
+  steps.forEach((step, i) => {
+    let candidates = ordered.filter((el) => matchesCompound(el, step.compound));
+
+    if (i > 0) {
+      const scope = new Set(matches.map((el) => el.id));
+      candidates = candidates.filter((el) =>
+        step.combinator === 'child'
+          ? ancestorsOf(el, byId).slice(0, 1).some((a) => scope.has(a))
+          : ancestorsOf(el, byId).some((a) => scope.has(a))
+      );
+    }
+
+    matches = applyNth(candidates, step.compound.nth);
+  });
+
+  return matches;
+}
+
+/**
+ * Resolve a selector that must identify exactly one element. Throws with the list of
+ * candidates when nothing or more than one element matches.
+ */
+export function selectOne(elements: SemanticElement[], selector: string): SemanticElement {
+  const matches = resolveSelector(elements, selector);
+
+  if (matches.length === 0) {
+    throw new Error(`No element matches selector ${JSON.stringify(selector)}`);
+  }
+
+  if (matches.length > 1) {
+    const candidates = matches.map((el, i) => `  ${i + 1}. ${describeElement(el)}`).join('\n');
+    throw new Error(
+      `Selector ${JSON.stringify(selector)} is ambiguous: ${matches.length} elements match.\n${candidates}\n` +
+        `Narrow it down, e.g. with #id, text="...", or :nth(N).`
+    );
+  }
+
+  return matches[0];
+}
+
+export function describeElement(el: SemanticElement): string {
+  let text = `${el.id}`;
+  if (el.type) text += ` (${stripColon(el.type)})`;
+  if (el.label) text += ` "${el.label}"`;
+  if (el.bounds) text += ` at (${el.bounds.left}, ${el.bounds.top}) ${el.bounds.width}x${el.bounds.height}`;
+  return text;
+}
+
+function matchesCompound(el: SemanticElement, compound: Compound): boolean {
+  if (compound.type && ATTRIBUTES.type(el) !== stripColon(compound.type)) return false;
+  if (compound.id && ATTRIBUTES.id(el) !== compound.id) return false;
+
+  return compound.attributes.every((test) => {
+    let actual = ATTRIBUTES[test.name](el);
+    if (actual === undefined || actual === null) return false;
+
+    let expected = test.value;
+    actual = String(actual);
+    if (test.ignoreCase) {
+      actual = actual.toLowerCase();
+      expected = expected.toLowerCase();
+    }
+
+    switch (test.op) {
+      case '=':
+        return actual === expected;
+      case '*=':
+        return actual.includes(expected);
+      case '^=':
+        return actual.startsWith(expected);
+      case '$=':
+        return actual.endsWith(expected);
+    }
+  });
+}
+
+function applyNth(elements: SemanticElement[], nth: Compound['nth']): SemanticElement[] {
+  if (nth === undefined) return elements;
+  const element = nth === 'last' ? elements[elements.length - 1] : elements[nth - 1];
+  return element ? [element] : [];
+}
+
+// Ancestor ids, nearest first. Parent links come from the semantic entries; the
+// scene an element was registered in counts as the outermost ancestor.
+function ancestorsOf(el: SemanticElement, byId: Map<string, SemanticElement>): string[] {
+  const ancestors: string[] = [];
+  const seen = new Set([el.id]);
+  let current: SemanticElement | undefined = el;
+
+  while (current?.parent && !seen.has(current.parent)) {
+    ancestors.push(current.parent);
+    seen.add(current.parent);
+    current = byId.get(current.parent);
+  }
+
+  const scene = (current ?? el).scene;
+  if (scene && !seen.has(scene)) ancestors.push(scene);
+
+  return ancestors;
+}
+
+// Elements without bounds sort last
+function readingOrder(a: SemanticElement, b: SemanticElement): number {
+  if (!a.bounds || !b.bounds) return (a.bounds ? 0 : 1) - (b.bounds ? 0 : 1);
+  if (a.bounds.top !== b.bounds.top) return a.bounds.top - b.bounds.top;
+  return a.bounds.left - b.bounds.left;
+}
+
+function stripColon(value: string): string {
+  return String(value).replace(/^:/, '');
+}
@@ -0,0 +1,64 @@
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { DEFAULT_CONFIG } from './config.js';
+import { closeAllConnections, configureConnection } from './connection.js';
+import { configureToolPolicy, getToolDefinitions, handleToolCall } from './tools.js';
+
+describe('run_scenario', () => {
+  // Only the scenario's connection check reaches the app, so accepting is enough
+  let app: net.Server;
+
+  beforeAll(async () => {
+    app = net.createServer();
+    await new Promise<void>((resolve) => app.listen(0, '127.0.0.1', resolve));
+    configureConnection({ ...DEFAULT_CONFIG, port: (app.address() as AddressInfo).port });
+  });
+
+  afterAll(async () => {
+    closeAllConnections();
+    await new Promise((resolve) => app.close(resolve));
+  });
+
+  it('treats null args as none, and fails only the steps whose args are not an object', async () => {
+    const result = await handleToolCall('run_scenario', {
+      steps: [
+        { tool: 'list_sessions', args: null },
+        { tool: 'list_sessions', args: ['session'] },
+        { tool: 'list_sessions', args: 'session' },
+      ],
+      stop_on_failure: false,
+    });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent.steps).toEqual([
+      expect.objectContaining({ tool: 'list_sessions', status: 'passed' }),
+      expect.objectContaining({ tool: 'list_sessions', status: 'failed', error: 'Error: Step "args" must be an object' }),
+      expect.objectContaining({ tool: 'list_sessions', status: 'failed', error: 'Error: Step "args" must be an object' }),
+    ]);
+  });
+});
+
+describe('read-only tool profile', () => {
+  beforeAll(() => {
+    configureToolPolicy({ ...DEFAULT_CONFIG, toolProfile: 'read-only' });
+  });
+
+  afterAll(() => {
+    configureToolPolicy(DEFAULT_CONFIG);
+  });
+
+  it('leaves out compare_screenshot, which writes baselines and diff images', async () => {
+    expect(getToolDefinitions().map((tool) => tool.name)).not.toContain('compare_screenshot');
+
+    const result = await handleToolCall('compare_screenshot', { baseline: '/tmp/baseline.png', update_baseline: true });
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('the server runs the read-only tool profile');
+  });
+
+  it('refuses to let take_screenshot write a file', async () => {
+    const result = await handleToolCall('take_screenshot', { output: 'path', filename: '/tmp/screenshot.png' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('"filename" writes a file');
+  });
+});
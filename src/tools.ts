@@ -9,29 +9,122 @@
  * All server setup is in index.ts
  */
 
-import { getConnectionContext } from './connection.js';
-
-// Get connection context for making requests to Elixir
-const conn = getConnectionContext();
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import {
+  ConnectionContext,
+  discoverScenicApps,
+  getActiveSessionName,
+  getConnectionContext,
+  getDefaultPort,
+  getDefaultSocketPath,
+  getDiscoveredApps,
+  hasSession,
+  listSessions,
+  MISSING_TOKEN_ERROR,
+  SessionHealth,
+  switchSession,
+} from './connection.js';
+import { auditToolCall, getRecentActivity, recordAuditEvent } from './audit.js';
+import { ServerConfig, ToolProfile } from './config.js';
+import { diffImages } from './diff.js';
+import { cropImage, decodePng, encodePng, fitImage, Region } from './png.js';
+import { recordToolCall, scenarioToExUnit, startRecording, stopRecording } from './recorder.js';
+import { describeElement, resolveSelector, selectOne, SemanticElement } from './selector.js';
 
 // ========================================================================
 // Tool Definitions
 // ========================================================================
 
+const OFFSET_PROPERTY = {
+  type: 'object',
+  description: 'Point relative to the element\'s top-left corner instead of its center. Each axis is pixels (12) or a percentage of the element\'s size ("10%"); an omitted axis stays centered.',
+  properties: {
+    x: { type: ['number', 'string'] },
+    y: { type: ['number', 'string'] },
+  },
+};
+
+const SELECTOR_DESCRIPTION =
+  'Element selector: type (button), #id, text="Exact label" or text=partial, [label*="Sa"] / [role=menu] attribute matches, :nth(N) / :first / :last, and ancestry ("#dialog button", "#dialog > button").';
+
+/**
+ * Definitions of the tools the tool policy exposes.
+ */
 export function getToolDefinitions() {
-  return [
+  return allToolDefinitions()
+    .filter((tool) => toolDenial(tool.name) === null)
+    .map(withCommonArguments);
+}
+
+function allToolDefinitions() {
+  const tools = [
     {
       name: 'connect_scenic',
-      description: 'CONNECTION SETUP: Establish the connection to the ScenicMCP GenServer running inside our Scenic app. Use this first before other interaction tools.',
+      description: 'CONNECTION SETUP: Establish the connection to the ScenicMCP GenServer running inside our Scenic app. Use this first before other interaction tools. Pass a session name to connect to several apps at once; the connected session becomes the active one.',
       inputSchema: {
         type: 'object',
         properties: {
           port: {
             type: 'number',
-            description: 'TCP port (default: 9999)',
+            description: `TCP port (default: ${getDefaultPort()})`,
+            default: getDefaultPort(),
+          },
+          index: {
+            type: 'number',
+            description: 'Connect to the app at this index (1-based) from the last discover_scenic_apps result instead of giving a port',
+          },
+          socket_path: {
+            type: 'string',
+            description: 'Unix domain socket the app listens on (config :scenic_mcp, socket_path: ...), instead of a TCP port',
+          },
+        },
+      },
+    },
+    {
+      name: 'discover_scenic_apps',
+      description: 'CONNECTION DISCOVERY: Scan a range of localhost ports for running Scenic apps with ScenicMCP enabled. Reports each app\'s port, name, viewport and driver. Connect to one afterwards with connect_scenic({ index }).',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          start_port: {
+            type: 'number',
+            description: 'First port to scan (default: 9990)',
+            default: 9990,
+          },
+          end_port: {
+            type: 'number',
+            description: 'Last port to scan, inclusive (default: 9999)',
             default: 9999,
           },
+          timeout_ms: {
+            type: 'number',
+            description: 'How long to wait for each port to answer the handshake (default: 500)',
+            default: 500,
+          },
+        },
+      },
+    },
+    {
+      name: 'list_sessions',
+      description: 'SESSION MANAGEMENT: List all named sessions (one per connected Scenic app) with their ports and connection state, and show which one is active.',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    {
+      name: 'switch_session',
+      description: 'SESSION MANAGEMENT: Make a named session the active one. Tools called without a "session" argument act on the active session.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of the session to activate',
+          },
         },
+        required: ['name'],
       },
     },
     {
@@ -106,146 +199,2529 @@ export function getToolDefinitions() {
             description: 'Mouse button to click (default: left)',
             default: 'left',
           },
+          click_count: {
+            type: 'number',
+            description: 'Number of clicks: 2 for a double-click, 3 for a triple-click (default: 1)',
+            default: 1,
+          },
+          report_hit: {
+            type: 'boolean',
+            description: 'Also report which element was under the point when clicking (same as element_at), so a missed click is explained right away (default: false)',
+            default: false,
+          },
+        },
+        required: ['x', 'y'],
+      },
+    },
+    {
+      name: 'send_mouse_down',
+      description: 'MOUSE PRESS: Press a mouse button at specific coordinates without releasing it. Pair with send_mouse_move and send_mouse_up for custom drag gestures, or use drag for the common case.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: {
+            type: 'number',
+            description: 'X coordinate',
+          },
+          y: {
+            type: 'number',
+            description: 'Y coordinate',
+          },
+          button: {
+            type: 'string',
+            enum: ['left', 'right', 'middle'],
+            description: 'Mouse button to press (default: left)',
+            default: 'left',
+          },
+        },
+        required: ['x', 'y'],
+      },
+    },
+    {
+      name: 'send_mouse_up',
+      description: 'MOUSE RELEASE: Release a mouse button at specific coordinates. Ends a gesture started with send_mouse_down.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: {
+            type: 'number',
+            description: 'X coordinate',
+          },
+          y: {
+            type: 'number',
+            description: 'Y coordinate',
+          },
+          button: {
+            type: 'string',
+            enum: ['left', 'right', 'middle'],
+            description: 'Mouse button to release (default: left)',
+            default: 'left',
+          },
         },
         required: ['x', 'y'],
       },
     },
+    {
+      name: 'send_scroll',
+      description: 'SCROLL WHEEL: Send scroll wheel input at a position. Use for scrollable lists, text areas and zoomable canvases. Negative dy scrolls down, positive dx scrolls right.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          dx: {
+            type: 'number',
+            description: 'Horizontal scroll delta',
+          },
+          dy: {
+            type: 'number',
+            description: 'Vertical scroll delta (e.g., -1 to scroll down one notch)',
+          },
+          x: {
+            type: 'number',
+            description: 'X coordinate of the cursor while scrolling (default: 400)',
+          },
+          y: {
+            type: 'number',
+            description: 'Y coordinate of the cursor while scrolling (default: 300)',
+          },
+        },
+        required: ['dx', 'dy'],
+      },
+    },
+    {
+      name: 'drag',
+      description: 'DRAG GESTURE: Press the mouse at a start point, move through interpolated intermediate positions, and release at an end point. Each end can be coordinates or a semantic element ID. Use for sliders, scrollbars, and drag-to-reorder widgets.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from_x: {
+            type: 'number',
+            description: 'Start X coordinate (use with from_y)',
+          },
+          from_y: {
+            type: 'number',
+            description: 'Start Y coordinate (use with from_x)',
+          },
+          from_element_id: {
+            type: 'string',
+            description: 'Semantic ID of the element to start dragging from (uses its center)',
+          },
+          from_selector: {
+            type: 'string',
+            description: 'Selector for the element to start dragging from (alternative to from_element_id, e.g. \'#list row:nth(2)\')',
+          },
+          to_x: {
+            type: 'number',
+            description: 'End X coordinate (use with to_y)',
+          },
+          to_y: {
+            type: 'number',
+            description: 'End Y coordinate (use with to_x)',
+          },
+          to_element_id: {
+            type: 'string',
+            description: 'Semantic ID of the element to drop onto (uses its center)',
+          },
+          to_selector: {
+            type: 'string',
+            description: 'Selector for the element to drop onto (alternative to to_element_id)',
+          },
+          steps: {
+            type: 'number',
+            description: 'Number of intermediate mouse moves between start and end (default: 10)',
+            default: 10,
+          },
+          button: {
+            type: 'string',
+            enum: ['left', 'right', 'middle'],
+            description: 'Mouse button to hold during the drag (default: left)',
+            default: 'left',
+          },
+        },
+      },
+    },
     {
       name: 'inspect_viewport',
-      description: 'UI ANALYSIS: Get a detailed text-based description of what\'s currently displayed in the Scenic application. Perfect for understanding UI structure, finding clickable elements, and programmatic interface analysis. Use when you need to understand what\'s on screen without taking a screenshot.',
+      description: 'UI ANALYSIS: Get a detailed text-based description of what\'s currently displayed in the Scenic application. Perfect for understanding UI structure, finding clickable elements, and programmatic interface analysis. Use when you need to understand what\'s on screen without taking a screenshot. Use mode "tree" to see the scene hierarchy: scripts, groups and primitives with their transforms, absolute bounds and text.',
       inputSchema: {
         type: 'object',
-        properties: {},
+        properties: {
+          mode: {
+            type: 'string',
+            enum: ['summary', 'tree'],
+            description: 'What to return: "summary" (script counts and semantic elements) or "tree" (indented scene hierarchy) (default: summary)',
+            default: 'summary',
+          },
+          max_depth: {
+            type: 'number',
+            description: 'In tree mode, how many levels to show below the root (1 = the root nodes only). Deeper nodes are counted but not listed.',
+          },
+          root: {
+            type: 'string',
+            description: 'In tree mode, only show the subtree under this node: a script id, a semantic element id (e.g., ":save_button") or a node path from a previous tree (e.g., "0.2.1")',
+          },
+        },
       },
     },
     {
       name: 'take_screenshot',
-      description: 'VISUAL DOCUMENTATION: Capture screenshots of the Scenic application for development progress tracking, debugging UI issues, creating before/after comparisons, and documenting visual changes. Essential for visual development workflows. Use when someone wants to "see how the app looks" or "capture current state". IMPORTANT: Always provide an explicit filename path (e.g., "/tmp/screenshot.png") for reliable operation.',
+      description: 'VISUAL DOCUMENTATION: Capture screenshots of the Scenic application for development progress tracking, debugging UI issues, creating before/after comparisons, and documenting visual changes. By default the image is returned inline so you can see it directly; crop to a region or element and downscale to keep it small. Use output "path" to only save the PNG to disk.',
       inputSchema: {
         type: 'object',
         properties: {
+          output: {
+            type: 'string',
+            enum: SCREENSHOT_OUTPUTS,
+            description: 'Return the screenshot as inline image content ("image", default) or only save it and return the file path ("path")',
+            default: 'image',
+          },
           filename: {
             type: 'string',
-            description: 'File path where screenshot will be saved (e.g., "/tmp/screenshot.png"). Always provide this for reliable operation.',
+            description: 'File path where screenshot will be saved (e.g., "/tmp/screenshot.png"). Required when output is "path"; otherwise a file in /tmp is used.',
+          },
+          region: {
+            type: 'object',
+            description: 'Crop the returned image to this rectangle (viewport coordinates)',
+            properties: {
+              x: { type: 'number' },
+              y: { type: 'number' },
+              width: { type: 'number' },
+              height: { type: 'number' },
+            },
+            required: ['x', 'y', 'width', 'height'],
+          },
+          element_id: {
+            type: 'string',
+            description: 'Crop the returned image to the bounds of this semantic element (e.g., "save_button")',
+          },
+          selector: {
+            type: 'string',
+            description: 'Crop the returned image to the bounds of the element matching this selector (alternative to element_id)',
+          },
+          max_width: {
+            type: 'number',
+            description: 'Downscale the returned image to at most this many pixels wide, preserving aspect ratio',
+          },
+          max_height: {
+            type: 'number',
+            description: 'Downscale the returned image to at most this many pixels high, preserving aspect ratio',
           },
         },
       },
     },
     {
-      name: 'find_clickable_elements',
-      description: 'SEMANTIC DISCOVERY: Find all clickable elements in the viewport with their semantic IDs, types, bounds, and center coordinates. Use this to discover what elements are available for interaction before clicking. Similar to Playwright\'s element queries.',
+      name: 'compare_screenshot',
+      description: 'VISUAL REGRESSION: Capture the current frame and diff it pixel by pixel against a baseline PNG. Reports the mismatch percentage and bounding boxes of changed areas, and writes a diff image with changes in red. Ignore volatile areas (clocks, cursors) by rectangle or element id. Use update_baseline to approve the current frame as the new baseline.',
       inputSchema: {
         type: 'object',
         properties: {
-          filter: {
+          baseline: {
             type: 'string',
-            description: 'Optional filter by element ID (e.g., "load_component_button" or ":load_component_button")',
+            description: 'Path to the baseline PNG (e.g., "test/baselines/main_menu.png")',
+          },
+          update_baseline: {
+            type: 'boolean',
+            description: 'Save the current frame as the baseline instead of comparing (default: false). Also use this to create a baseline the first time.',
+            default: false,
+          },
+          tolerance: {
+            type: 'number',
+            description: 'Largest mismatch percentage that still passes (default: 0)',
+            default: 0,
+          },
+          pixel_threshold: {
+            type: 'number',
+            description: 'Largest per-channel color difference (0-255) treated as an unchanged pixel, to absorb anti-aliasing noise (default: 8)',
+            default: 8,
+          },
+          ignore_regions: {
+            type: 'array',
+            description: 'Areas to leave out of the comparison, each a rectangle {x, y, width, height}, a semantic element {element_id} or a {selector} (every matching element is ignored)',
+            items: {
+              type: 'object',
+              properties: {
+                x: { type: 'number' },
+                y: { type: 'number' },
+                width: { type: 'number' },
+                height: { type: 'number' },
+                element_id: { type: 'string' },
+                selector: { type: 'string' },
+              },
+            },
+          },
+          diff_path: {
+            type: 'string',
+            description: 'Where to write the diff image (default: next to the baseline as <name>.diff.png)',
           },
         },
+        required: ['baseline'],
       },
     },
     {
-      name: 'click_element',
-      description: 'SEMANTIC CLICK: Click an element by its semantic ID. This is the high-level equivalent of Playwright\'s page.click(selector). Automatically finds the element, calculates its center, and clicks it. Use this for deterministic, reliable clicking in tests and automation.',
+      name: 'get_rendered_text',
+      description: 'TEXT INSPECTION: Read the text actually rendered in the Scenic viewport, straight from the script table. Use to verify editors, labels and text-heavy UIs without screenshots. Modes: "flat" (all text), "positioned" (each text item with x/y), "lines" (text grouped into visual lines).',
       inputSchema: {
         type: 'object',
         properties: {
-          element_id: {
+          mode: {
             type: 'string',
-            description: 'The semantic ID of the element to click (e.g., "load_component_button" or ":load_component_button")',
+            enum: ['flat', 'positioned', 'lines'],
+            description: 'How to return the text (default: flat)',
+            default: 'flat',
+          },
+          y_tolerance: {
+            type: 'number',
+            description: 'Maximum Y difference for text items to count as the same line in "lines" mode (default: 5)',
+            default: 5,
           },
         },
-        required: ['element_id'],
       },
     },
     {
-      name: 'hover_element',
-      description: 'SEMANTIC HOVER: Move the mouse to hover over an element by its semantic ID. Finds the element and moves the cursor to its center without clicking. Useful for testing hover effects and tooltips.',
+      name: 'assert_text',
+      description: 'TEXT ASSERTION: Check facts about the rendered text and report pass/fail. Every provided option adds a check: text visible (or not), text on a given line, text wrapping across lines, and total line count.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          text: {
+            type: 'string',
+            description: 'Text to look for',
+          },
+          visible: {
+            type: 'boolean',
+            description: 'Whether the text should be visible on screen (default: true)',
+            default: true,
+          },
+          line: {
+            type: 'number',
+            description: '1-indexed line number the text should appear on',
+          },
+          wraps: {
+            type: 'boolean',
+            description: 'Whether the text should wrap across more than one line',
+          },
+          line_count: {
+            type: 'number',
+            description: 'Expected number of rendered text lines',
+          },
+        },
+      },
+    },
+    {
+      name: 'wait_for',
+      description: 'SYNCHRONIZATION: Wait until a condition holds in the Scenic app before continuing, polling until it is met or the timeout expires. Use after clicks and key presses instead of inspecting immediately, like Playwright\'s auto-waiting. Reports how long it waited and the final state.',
       inputSchema: {
         type: 'object',
         properties: {
+          condition: {
+            type: 'string',
+            enum: ['text_visible', 'text_absent', 'element_present', 'element_absent', 'scripts_changed'],
+            description: 'What to wait for: text appearing/disappearing on screen, a clickable element appearing/disappearing, or the number of rendered scripts changing',
+          },
+          text: {
+            type: 'string',
+            description: 'Text to look for (for text_visible / text_absent)',
+          },
           element_id: {
             type: 'string',
-            description: 'The semantic ID of the element to hover over (e.g., "load_component_button")',
+            description: 'Semantic element ID to look for (for element_present / element_absent)',
+          },
+          selector: {
+            type: 'string',
+            description: 'Selector to look for instead of an element ID (for element_present / element_absent); any number of matches counts as present',
+          },
+          timeout_ms: {
+            type: 'number',
+            description: 'Maximum time to wait in milliseconds (default: 5000)',
+            default: 5000,
+          },
+          interval_ms: {
+            type: 'number',
+            description: 'Time between polls in milliseconds (default: 100)',
+            default: 100,
           },
         },
-        required: ['element_id'],
+        required: ['condition'],
       },
     },
-  ];
-}
+    {
+      name: 'start_input_trace',
+      description: 'INPUT TRACING: Start capturing the input events that flow through the Scenic viewport (clicks, keys, scrolls, cursor moves) and which scene or component each one was delivered to. Use to debug input that seems to be ignored or routed to the wrong component. Read the log with get_input_trace or stop_input_trace.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          max_events: {
+            type: 'number',
+            description: 'Maximum events to keep; the oldest are dropped beyond this (default: 1000)',
+            default: 1000,
+          },
+          include_moves: {
+            type: 'boolean',
+            description: 'Whether to log cursor movement events, which can be noisy (default: true)',
+            default: true,
+          },
+        },
+      },
+    },
+    {
+      name: 'get_input_trace',
+      description: 'INPUT TRACING: Get the time-ordered input event log captured so far, without stopping the trace. Each event shows its type, coordinates, key, modifiers and the scene/component that handled it (or that nothing did).',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    {
+      name: 'stop_input_trace',
+      description: 'INPUT TRACING: Stop capturing input events and return the time-ordered log. Each event shows its type, coordinates, key, modifiers and the scene/component that handled it (or that nothing did).',
+      inputSchema: {
+        type: 'object',
+        properties: {},
+      },
+    },
+    {
+      name: 'start_recording',
+      description: 'TEST RECORDING: Start recording interactions (keys, clicks, element clicks, drags, screenshots, waits and text assertions) so the session can be exported as a regression test. Only successful calls are recorded.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'Name of the recorded scenario, used as the test name (e.g., "saves a new note")',
+          },
+        },
+        required: ['name'],
+      },
+    },
+    {
+      name: 'stop_recording',
+      description: 'TEST RECORDING: Stop the current recording and export it as a replayable JSON scenario (for run_scenario) and/or an ExUnit test using ScenicMcp.Probes. Optionally write the exports to files.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format: {
+            type: 'string',
+            enum: ['json', 'exunit', 'both'],
+            description: 'Which export(s) to return (default: both)',
+            default: 'both',
+          },
+          json_path: {
+            type: 'string',
+            description: 'Optional file path to write the JSON scenario to',
+          },
+          exunit_path: {
+            type: 'string',
+            description: 'Optional file path to write the ExUnit test to (e.g., "test/recorded/save_note_test.exs")',
+          },
+        },
+      },
+    },
+    {
+      name: 'get_recent_activity',
+      description: 'AUDIT LOG: Show the most recent tool calls, newest first, with their arguments, the exact messages sent to the app, the raw replies, latencies and errors. Use to work out what happened before an app broke or a call failed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          limit: {
+            type: 'number',
+            description: 'Maximum number of entries to return (default: 20, max: 500)',
+            default: 20,
+          },
+          tool: {
+            type: 'string',
+            description: 'Only show calls to this tool (e.g., "click_element")',
+          },
+          session: {
+            type: 'string',
+            description: 'Only show calls made on this session',
+          },
+          errors_only: {
+            type: 'boolean',
+            description: 'Only show calls that failed (default: false)',
+            default: false,
+          },
+        },
+      },
+    },
+    {
+      name: 'run_scenario',
+      description: 'BATCH EXECUTION: Run a list of tool calls (keys, clicks, element clicks, drags, waits, screenshots, text assertions) in order and get a per-step pass/fail report with timings. Accepts steps inline or a JSON scenario file such as one exported by stop_recording.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          steps: {
+            type: 'array',
+            description: 'Steps to run, each a tool call like { "tool": "click_element", "args": { "element_id": "save_button" } }',
+            items: {
+              type: 'object',
+              properties: {
+                tool: { type: 'string' },
+                args: { type: 'object' },
+              },
+              required: ['tool'],
+            },
+          },
+          path: {
+            type: 'string',
+            description: 'Path to a JSON scenario file ({ "name": ..., "steps": [...] } or a bare array of steps). Used instead of "steps".',
+          },
+          stop_on_failure: {
+            type: 'boolean',
+            description: 'Stop at the first failing step and skip the rest (default: true)',
+            default: true,
+          },
+        },
+      },
+    },
+    {
+      name: 'find_clickable_elements',
+      description: 'SEMANTIC DISCOVERY: Find all clickable elements in the viewport with their semantic IDs, types, bounds, and center coordinates. Use this to discover what elements are available for interaction before clicking, or to check what a selector matches. Similar to Playwright\'s element queries.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          filter: {
+            type: 'string',
+            description: 'Optional filter by element ID (e.g., "load_component_button" or ":load_component_button")',
+          },
+          selector: {
+            type: 'string',
+            description: SELECTOR_DESCRIPTION + ' Returns every clickable match.',
+          },
+        },
+      },
+    },
+    {
+      name: 'element_at',
+      description: 'HIT TESTING: Report which semantic element is at a screen point - the topmost one plus every element whose bounds overlap the point, with their bounds. When no clickable element is there, also reports the nearest one and how far away it is. Use it to explain a click that missed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          x: {
+            type: 'number',
+            description: 'X coordinate',
+          },
+          y: {
+            type: 'number',
+            description: 'Y coordinate',
+          },
+        },
+        required: ['x', 'y'],
+      },
+    },
+    {
+      name: 'click_element',
+      description: 'SEMANTIC CLICK: Click an element by its semantic ID or a selector. This is the high-level equivalent of Playwright\'s page.click(selector). Automatically finds the element, calculates its center (or an offset within it), and clicks it, optionally with another button, several times or with modifier keys held. Use this for deterministic, reliable clicking in tests and automation.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          element_id: {
+            type: 'string',
+            description: 'The semantic ID of the element to click (e.g., "load_component_button" or ":load_component_button")',
+          },
+          selector: {
+            type: 'string',
+            description: SELECTOR_DESCRIPTION + ' Must match exactly one element. Alternative to element_id.',
+          },
+          button: {
+            type: 'string',
+            enum: ['left', 'right', 'middle'],
+            description: 'Mouse button to click (default: left). Use right for context menus.',
+            default: 'left',
+          },
+          click_count: {
+            type: 'number',
+            description: 'Number of clicks: 2 for a double-click (e.g. select a word), 3 for a triple-click (default: 1)',
+            default: 1,
+          },
+          offset: OFFSET_PROPERTY,
+          modifiers: {
+            type: 'array',
+            items: { type: 'string', enum: ['shift', 'ctrl', 'alt', 'cmd', 'meta'] },
+            description: 'Modifier keys held during the click, e.g. ["shift"] or ["ctrl"] for multi-select',
+          },
+        },
+      },
+    },
+    {
+      name: 'hover_element',
+      description: 'SEMANTIC HOVER: Move the mouse to hover over an element by its semantic ID or a selector. Finds the element and moves the cursor to its center without clicking. Useful for testing hover effects and tooltips.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          element_id: {
+            type: 'string',
+            description: 'The semantic ID of the element to hover over (e.g., "load_component_button")',
+          },
+          selector: {
+            type: 'string',
+            description: SELECTOR_DESCRIPTION + ' Must match exactly one element. Alternative to element_id.',
+          },
+          offset: OFFSET_PROPERTY,
+        },
+      },
+    },
+  ];
+
+  return tools;
+}
+
+// Tools that do not act on a single session
+const SESSION_MANAGEMENT_TOOLS = [
+  'discover_scenic_apps',
+  'list_sessions',
+  'switch_session',
+  'start_recording',
+  'stop_recording',
+  'get_recent_activity',
+];
+
+const INPUT_TRACE_SCHEMA = {
+  tracing: { type: 'boolean' },
+  started_at: { type: ['string', 'null'] },
+  duration_ms: { type: 'number' },
+  count: { type: 'number' },
+  dropped: { type: 'number' },
+  events: { type: 'array', items: { type: 'object' } },
+};
+
+const POINT_SCHEMA = {
+  type: 'object',
+  properties: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+  },
+};
+
+const CONNECTION_OUTPUT_SCHEMA = {
+  session: { type: 'string' },
+  port: { type: 'number' },
+  socket_path: { type: ['string', 'null'] },
+  connected: { type: 'boolean' },
+  server: { type: 'object' },
+  health: { type: 'object' },
+};
+
+// Shape of each tool's structuredContent. Properties are not required because tools
+// that find no connected app report that as a plain { message } result instead.
+const OUTPUT_SCHEMAS: Record<string, Record<string, any>> = {
+  connect_scenic: CONNECTION_OUTPUT_SCHEMA,
+  get_scenic_status: CONNECTION_OUTPUT_SCHEMA,
+  discover_scenic_apps: {
+    apps: { type: 'array', items: { type: 'object' } },
+  },
+  list_sessions: {
+    active: { type: 'string' },
+    sessions: { type: 'array', items: { type: 'object' } },
+  },
+  switch_session: {
+    active: { type: 'string' },
+  },
+  send_keys: { status: { type: 'string' } },
+  send_mouse_move: { status: { type: 'string' } },
+  send_mouse_click: {
+    status: { type: 'string' },
+    hit: { type: 'object' },
+  },
+  send_mouse_down: { status: { type: 'string' } },
+  send_mouse_up: { status: { type: 'string' } },
+  send_scroll: { status: { type: 'string' } },
+  drag: {
+    status: { type: 'string' },
+    from: POINT_SCHEMA,
+    to: POINT_SCHEMA,
+    steps: { type: 'number' },
+  },
+  inspect_viewport: {
+    status: { type: 'string' },
+    mode: { type: 'string' },
+    script_count: { type: 'number' },
+    semantic_elements: { type: 'object' },
+    node_count: { type: 'number' },
+    nodes: { type: 'array', items: { type: 'object' } },
+  },
+  take_screenshot: {
+    path: { type: 'string' },
+    size_bytes: { type: 'number' },
+    width: { type: 'number' },
+    height: { type: 'number' },
+    crop: { type: 'object' },
+  },
+  compare_screenshot: {
+    passed: { type: 'boolean' },
+    baseline: { type: 'string' },
+    baseline_updated: { type: 'boolean' },
+    mismatch_percent: { type: 'number' },
+    changed_pixels: { type: 'number' },
+    compared_pixels: { type: 'number' },
+    tolerance: { type: 'number' },
+    changed_regions: { type: 'array', items: { type: 'object' } },
+    diff_path: { type: 'string' },
+  },
+  get_rendered_text: {
+    mode: { type: 'string' },
+    text: { type: 'string' },
+    items: { type: 'array' },
+    lines: { type: 'array', items: { type: 'object' } },
+    stats: { type: 'object' },
+  },
+  assert_text: {
+    passed: { type: 'boolean' },
+    checks: { type: 'array', items: { type: 'object' } },
+  },
+  wait_for: {
+    condition: { type: 'string' },
+    met: { type: 'boolean' },
+    waited_ms: { type: 'number' },
+    polls: { type: 'number' },
+    state: { type: 'string' },
+  },
+  start_input_trace: {
+    status: { type: 'string' },
+    max_events: { type: 'number' },
+    include_moves: { type: 'boolean' },
+  },
+  get_input_trace: INPUT_TRACE_SCHEMA,
+  stop_input_trace: INPUT_TRACE_SCHEMA,
+  start_recording: {
+    recording: { type: 'boolean' },
+    name: { type: 'string' },
+  },
+  stop_recording: {
+    scenario: { type: 'object' },
+    skipped: { type: 'number' },
+    exunit: { type: 'string' },
+  },
+  get_recent_activity: {
+    source: { type: 'string' },
+    entries: { type: 'array', items: { type: 'object' } },
+  },
+  run_scenario: {
+    name: { type: 'string' },
+    passed: { type: 'boolean' },
+    duration_ms: { type: 'number' },
+    counts: { type: 'object' },
+    steps: { type: 'array', items: { type: 'object' } },
+  },
+  find_clickable_elements: {
+    count: { type: 'number' },
+    elements: { type: 'array', items: { type: 'object' } },
+  },
+  element_at: {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    topmost: { type: ['object', 'null'] },
+    count: { type: 'number' },
+    elements: { type: 'array', items: { type: 'object' } },
+    nearest_clickable: { type: ['object', 'null'] },
+  },
+  click_element: {
+    status: { type: 'string' },
+    clicked_at: POINT_SCHEMA,
+    element: { type: 'object' },
+    button: { type: 'string' },
+    click_count: { type: 'number' },
+    modifiers: { type: 'array', items: { type: 'string' } },
+  },
+  hover_element: {
+    status: { type: 'string' },
+    position: POINT_SCHEMA,
+    element: { type: 'object' },
+  },
+};
+
+// Adds the arguments every tool accepts (response_format, plus session and
+// command_timeout_ms for tools that act on one app) and the tool's output schema
+function withCommonArguments(tool: any) {
+  const properties: Record<string, any> = {
+    ...tool.inputSchema.properties,
+    response_format: {
+      type: 'string',
+      enum: ['text', 'json'],
+      description: 'text (default): human-readable summary. json: the structured result as JSON text, for programmatic use',
+      default: 'text',
+    },
+  };
+
+  if (!SESSION_MANAGEMENT_TOOLS.includes(tool.name)) {
+    properties.session = {
+      type: 'string',
+      description: 'Named session (Scenic app) to act on (default: the active session)',
+    };
+    properties.command_timeout_ms = {
+      type: 'number',
+      description: 'Timeout for each command this call sends to the app, overriding the server default (e.g. raise it for screenshots of large viewports)',
+    };
+  }
+
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties,
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        ...OUTPUT_SCHEMAS[tool.name],
+        message: { type: 'string' },
+      },
+    },
+  };
+}
+
+// ========================================================================
+// Tool Policy
+// ========================================================================
+
+// Tools that only observe the app. None of them inject input or write files (see
+// readOnlyDenial for take_screenshot), so the read-only profile can be handed to an
+// agent watching a live session. compare_screenshot is left out: it writes baselines
+// and diff images.
+const READ_ONLY_TOOLS = [
+  'connect_scenic',
+  'discover_scenic_apps',
+  'list_sessions',
+  'switch_session',
+  'get_scenic_status',
+  'inspect_viewport',
+  'take_screenshot',
+  'get_rendered_text',
+  'assert_text',
+  'wait_for',
+  'start_input_trace',
+  'get_input_trace',
+  'stop_input_trace',
+  'find_clickable_elements',
+  'element_at',
+  'get_recent_activity',
+];
+
+interface ToolPolicy {
+  profile: ToolProfile;
+  allow: Set<string> | null;
+  deny: Set<string>;
+}
+
+let toolPolicy: ToolPolicy = { profile: 'full', allow: null, deny: new Set() };
+
+/**
+ * Apply the tool profile and allow/deny lists from the server configuration.
+ * Throws on names that are not tools, or that the profile already excludes, so a
+ * typo fails at startup instead of leaving the wrong tools enabled.
+ */
+export function configureToolPolicy(config: ServerConfig) {
+  const known = new Set(allToolDefinitions().map((tool) => tool.name));
+  const errors: string[] = [];
+
+  const lists: [string, string[] | null][] = [
+    ['allow list (--allow-tools)', config.allowTools],
+    ['deny list (--deny-tools)', config.denyTools],
+  ];
+  for (const [list, names] of lists) {
+    (names ?? []).filter((name) => !known.has(name)).forEach((name) => errors.push(`Unknown tool "${name}" in the ${list}`));
+  }
+
+  if (config.toolProfile === 'read-only') {
+    (config.allowTools ?? [])
+      .filter((name) => known.has(name) && !READ_ONLY_TOOLS.includes(name))
+      .forEach((name) => errors.push(`"${name}" is in the allow list but not in the read-only profile`));
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+  }
+
+  toolPolicy = {
+    profile: config.toolProfile,
+    allow: config.allowTools ? new Set(config.allowTools) : null,
+    deny: new Set(config.denyTools ?? []),
+  };
+}
+
+// Why the policy disables a tool, or null when it is available
+function toolDenial(name: string): string | null {
+  if (toolPolicy.deny.has(name)) {
+    return 'it is on the deny list';
+  }
+  if (toolPolicy.profile === 'read-only' && !READ_ONLY_TOOLS.includes(name)) {
+    return 'the server runs the read-only tool profile';
+  }
+  if (toolPolicy.allow && !toolPolicy.allow.has(name)) {
+    return 'it is not on the allow list';
+  }
+  return null;
+}
+
+// Arguments that would let a read-only tool write to disk
+function readOnlyDenial(name: string, args: any): string | null {
+  if (toolPolicy.profile === 'read-only' && name === 'take_screenshot' && args.filename !== undefined) {
+    return '"filename" writes a file, which the read-only tool profile does not allow. Use output "image" instead.';
+  }
+  return null;
+}
+
+// ========================================================================
+// Guarded Actions
+// ========================================================================
+
+// Key chords (e.g. ctrl+q) and element ids that can end a session, such as quit
+// shortcuts and delete buttons. A call that would press or click one goes ahead only
+// after a person confirms it through the MCP client.
+
+const CHORD_MODIFIERS = ['ctrl', 'shift', 'alt', 'cmd'];
+
+interface KeyChord {
+  label: string;
+  key: string;
+  modifiers: string[];
+}
+
+// Ask a person to allow an action: true to go ahead, false if they refuse, and null
+// when the client cannot ask
+export type ConfirmationHandler = (message: string) => Promise<boolean | null>;
+
+let guardedChords: KeyChord[] = [];
+let guardedElements = new Set<string>();
+let confirmationHandler: ConfirmationHandler = async () => null;
+
+/**
+ * Apply the guarded key chords and element ids from the server configuration.
+ * Throws on a chord that cannot be parsed.
+ */
+export function configureGuards(config: ServerConfig) {
+  const errors: string[] = [];
+  const chords = (config.guardKeys ?? []).filter((chord) => chord.toLowerCase() !== 'none');
+
+  guardedChords = chords.flatMap((chord) => {
+    const parsed = parseChord(chord);
+    if (!parsed) {
+      errors.push(`Invalid key chord "${chord}" in --guard-keys: join modifiers (${CHORD_MODIFIERS.join(', ')}) and a key with "+", e.g. ctrl+q`);
+    }
+    return parsed ? [parsed] : [];
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration:\n  ${errors.join('\n  ')}`);
+  }
+
+  guardedElements = new Set((config.guardElements ?? []).map(normalizeElementId));
+}
+
+export function setConfirmationHandler(handler: ConfirmationHandler) {
+  confirmationHandler = handler;
+}
+
+function parseChord(chord: string): KeyChord | null {
+  const parts = chord.split('+');
+  const key = normalizeKeyName(parts.pop() ?? '');
+  const modifiers = parts.map(normalizeModifier);
+
+  if (key === '' || modifiers.some((modifier) => !CHORD_MODIFIERS.includes(modifier))) {
+    return null;
+  }
+  return { label: [...modifiers, key].join('+'), key, modifiers };
+}
+
+function normalizeKeyName(key: string): string {
+  return key.trim().toLowerCase().replace(/^key_/, '');
+}
+
+// cmd and meta are the same key as far as a guard is concerned
+function normalizeModifier(modifier: string): string {
+  const name = modifier.trim().toLowerCase();
+  return name === 'meta' ? 'cmd' : name;
+}
+
+function normalizeElementId(id: string): string {
+  return String(id).replace(/^:/, '');
+}
+
+// A chord matches when its key is pressed with at least its modifiers held
+function findGuardedChord(key: string, modifiers: string[]): KeyChord | undefined {
+  const pressed = normalizeKeyName(key);
+  const held = new Set(modifiers.map(normalizeModifier));
+  return guardedChords.find((chord) => chord.key === pressed && chord.modifiers.every((m) => held.has(m)));
+}
+
+// Describe what the call would do to a guarded chord or element, or null if it
+// touches none
+async function findGuardedAction(name: string, conn: ConnectionContext, args: any): Promise<string | null> {
+  if (name === 'send_keys' && typeof args.key === 'string') {
+    const chord = findGuardedChord(args.key, Array.isArray(args.modifiers) ? args.modifiers : []);
+    return chord ? `send_keys would press ${chord.label}, a guarded key chord` : null;
+  }
+
+  if (guardedElements.size === 0) return null;
+
+  try {
+    return await findGuardedElementAction(name, conn, args);
+  } catch (error) {
+    // With no app connected the tool sends nothing and reports that itself
+    if (!(await conn.checkTCPServer(undefined, false))) return null;
+
+    // Otherwise fail closed: a slow or erroring app must not let a guarded click through
+    return `${name} could not be checked against the guarded elements (${error instanceof Error ? error.message : error}), so it may hit one`;
+  }
+}
+
+// Pressing or releasing the button over an element can click it just like a full
+// click, so every mouse tool that acts at a point is checked
+const POINTER_VERBS: Record<string, string> = {
+  send_mouse_click: 'click',
+  send_mouse_down: 'press the button on',
+  send_mouse_up: 'release the button over',
+};
+
+async function findGuardedElementAction(name: string, conn: ConnectionContext, args: any): Promise<string | null> {
+  if (name === 'click_element') {
+    const elementId = args.selector ? await resolveElementId(conn, args.selector) : args.element_id;
+    return elementId && guardedElements.has(normalizeElementId(elementId))
+      ? `click_element would click "${elementId}", a guarded element`
+      : null;
+  }
+
+  if (name in POINTER_VERBS && typeof args.x === 'number' && typeof args.y === 'number') {
+    const element = await guardedElementAt(conn, args.x, args.y);
+    return element ? `${name} at (${args.x}, ${args.y}) would ${POINTER_VERBS[name]} "${element.id}", a guarded element` : null;
+  }
+
+  if (name === 'drag') {
+    for (const [end, verb] of [['from', 'start on'], ['to', 'drop onto']]) {
+      const elementId = args[`${end}_selector`] ? await resolveElementId(conn, args[`${end}_selector`]) : args[`${end}_element_id`];
+      const x = args[`${end}_x`];
+      const y = args[`${end}_y`];
+
+      if (elementId) {
+        if (guardedElements.has(normalizeElementId(elementId))) {
+          return `drag would ${verb} "${elementId}", a guarded element`;
+        }
+      } else if (typeof x === 'number' && typeof y === 'number') {
+        const element = await guardedElementAt(conn, x, y);
+        if (element) return `drag would ${verb} "${element.id}" at (${x}, ${y}), a guarded element`;
+      }
+    }
+  }
+
+  return null;
+}
+
+async function guardedElementAt(conn: ConnectionContext, x: number, y: number): Promise<SemanticElement | undefined> {
+  const hit = await queryElixir(conn, { action: 'element_at', x, y });
+  return (hit.elements ?? []).find((el: SemanticElement) => guardedElements.has(normalizeElementId(el.id)));
+}
+
+// Returns the error result for a refused call, or null when a person allowed it
+async function confirmGuardedAction(name: string, conn: ConnectionContext, args: any, action: string) {
+  let confirmed: boolean | null;
+  let failure: string | undefined;
+
+  try {
+    confirmed = await confirmationHandler(`Scenic MCP: ${action}. Allow it?`);
+  } catch (error) {
+    confirmed = false;
+    failure = error instanceof Error ? error.message : String(error);
+  }
+
+  recordAuditEvent({
+    event: 'guarded_call',
+    tool: name,
+    session: conn.sessionName,
+    args,
+    action,
+    outcome: confirmed === null ? 'rejected_without_confirmation' : confirmed ? 'confirmed' : 'declined',
+    ...(failure !== undefined && { error: failure }),
+  });
+
+  if (confirmed) return null;
+
+  const text =
+    confirmed === null
+      ? `Error: ${action}. It needs a person to confirm it, but this MCP client does not support confirmation requests (elicitation), so the call was rejected. Guarded chords and elements are configured with --guard-keys and --guard-elements.`
+      : `Error: The call was not confirmed (${failure ?? action}), so nothing was sent to the app.`;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+    isError: true,
+  };
+}
+
+// ========================================================================
+// Tool Handler Router
+// ========================================================================
+
+export async function handleToolCall(name: string, args: any) {
+  args = args || {};
+
+  // Reading the audit log is not itself worth recording
+  if (name === 'get_recent_activity') {
+    return await runToolCall(name, args);
+  }
+  return await auditToolCall(name, args, () => runToolCall(name, args));
+}
+
+async function runToolCall(name: string, args: any) {
+  const { session } = args;
+
+  // Unknown tools fall through to the router, which reports them as unknown
+  const denial = toolDenial(name);
+  if (denial !== null && allToolDefinitions().some((tool) => tool.name === name)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: Tool "${name}" is disabled on this server because ${denial}. Available tools: ${getToolDefinitions().map((tool) => tool.name).join(', ')}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const argumentDenial = readOnlyDenial(name, args);
+  if (argumentDenial !== null) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: ${argumentDenial}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Its "session" argument only filters the log, and may name a session that is gone
+  if (name === 'get_recent_activity') {
+    const { response_format = 'text', ...toolArgs } = args;
+    return formatResult(await handleGetRecentActivity(toolArgs), response_format);
+  }
+
+  // connect_scenic is the only tool allowed to create a new session
+  if (session !== undefined && name !== 'connect_scenic' && !hasSession(session)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error: Unknown session "${session}". Use connect_scenic with session "${session}" to create it, or list_sessions to see existing sessions.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const { response_format = 'text', ...toolArgs } = args;
+  const { command_timeout_ms } = toolArgs;
+
+  if (command_timeout_ms !== undefined && !(Number.isInteger(command_timeout_ms) && command_timeout_ms > 0)) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: "command_timeout_ms" must be a positive integer',
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const conn = getConnectionContext(session, { timeoutMs: command_timeout_ms });
+
+  const guardedAction = await findGuardedAction(name, conn, toolArgs);
+  if (guardedAction !== null) {
+    const refusal = await confirmGuardedAction(name, conn, toolArgs, guardedAction);
+    if (refusal) return refusal;
+  }
+
+  const result = await dispatchToolCall(name, conn, toolArgs);
+
+  recordToolCall(name, toolArgs, result);
+
+  return formatResult(result, response_format);
+}
+
+/**
+ * Every successful result carries structuredContent (tools with nothing more to say
+ * get their text as { message }). In json mode the text blocks are replaced with the
+ * structured result; images are kept.
+ */
+function formatResult(result: any, responseFormat: string) {
+  if (!result.isError && result.structuredContent === undefined) {
+    const message = result.content
+      .filter((c: any) => c.type === 'text')
+      .map((c: any) => c.text)
+      .join('\n');
+    result = { ...result, structuredContent: { message } };
+  }
+
+  if (responseFormat !== 'json' || result.structuredContent === undefined) {
+    return result;
+  }
+
+  return {
+    ...result,
+    content: [
+      ...result.content.filter((c: any) => c.type !== 'text'),
+      {
+        type: 'text',
+        text: JSON.stringify(result.structuredContent, null, 2),
+      },
+    ],
+  };
+}
+
+async function dispatchToolCall(name: string, conn: ConnectionContext, args: any): Promise<any> {
+  switch (name) {
+    case 'connect_scenic':
+      return await handleConnectScenic(conn, args);
+    case 'discover_scenic_apps':
+      return await handleDiscoverScenicApps(conn, args);
+    case 'list_sessions':
+      return await handleListSessions(conn, args);
+    case 'switch_session':
+      return await handleSwitchSession(conn, args);
+    case 'get_scenic_status':
+      return await handleGetScenicStatus(conn, args);
+    case 'send_keys':
+      return await handleSendKeys(conn, args);
+    case 'send_mouse_move':
+      return await handleSendMouseMove(conn, args);
+    case 'send_mouse_click':
+      return await handleSendMouseClick(conn, args);
+    case 'send_mouse_down':
+      return await handleSendMouseDown(conn, args);
+    case 'send_mouse_up':
+      return await handleSendMouseUp(conn, args);
+    case 'send_scroll':
+      return await handleSendScroll(conn, args);
+    case 'drag':
+      return await handleDrag(conn, args);
+    case 'inspect_viewport':
+      return await handleInspectViewport(conn, args);
+    case 'take_screenshot':
+      return await handleTakeScreenshot(conn, args);
+    case 'compare_screenshot':
+      return await handleCompareScreenshot(conn, args);
+    case 'get_rendered_text':
+      return await handleGetRenderedText(conn, args);
+    case 'assert_text':
+      return await handleAssertText(conn, args);
+    case 'wait_for':
+      return await handleWaitFor(conn, args);
+    case 'start_input_trace':
+      return await handleStartInputTrace(conn, args);
+    case 'get_input_trace':
+      return await handleInputTraceLog(conn, 'get_input_trace');
+    case 'stop_input_trace':
+      return await handleInputTraceLog(conn, 'stop_input_trace');
+    case 'start_recording':
+      return await handleStartRecording(conn, args);
+    case 'stop_recording':
+      return await handleStopRecording(conn, args);
+    case 'run_scenario':
+      return await handleRunScenario(conn, args);
+    case 'find_clickable_elements':
+      return await handleFindClickableElements(conn, args);
+    case 'element_at':
+      return await handleElementAt(conn, args);
+    case 'click_element':
+      return await handleClickElement(conn, args);
+    case 'hover_element':
+      return await handleHoverElement(conn, args);
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+// ========================================================================
+// Tool Handler Implementations
+// ========================================================================
+
+async function handleConnectScenic(conn: ConnectionContext, args: any) {
+  try {
+    const { index, socket_path } = args;
+    let { port = getDefaultPort() } = args;
+
+    if (socket_path !== undefined && (typeof socket_path !== 'string' || socket_path.trim() === '')) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: "socket_path" must be a non-empty path',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (socket_path !== undefined && (args.port !== undefined || index !== undefined)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Pass either "socket_path" or "port"/"index", not both',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (index !== undefined) {
+      const app = getDiscoveredApps()[index - 1];
+      if (!app) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: No discovered app at index ${index}. Run discover_scenic_apps first and pick an index from its results.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      port = app.port;
+    }
+
+    // Without an explicit endpoint, use the configured socket path if there is one
+    const socketPath: string | null =
+      socket_path?.trim() ?? (args.port === undefined && index === undefined ? getDefaultSocketPath() : null);
+
+    if (socketPath !== null) {
+      conn.setSocketPath(socketPath);
+    } else {
+      conn.setCurrentPort(port);
+    }
+    switchSession(conn.sessionName);
+    const endpoint = conn.describeEndpoint();
+    const isRunning = await conn.checkTCPServer(port);
+
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `No Scenic server found on ${endpoint} (session "${conn.sessionName}").\n\nStatus: Waiting for connection\n\nTo use Scenic MCP, your Scenic application needs to include the ScenicMcp.Server module and start it on the specified ${socketPath !== null ? 'socket path' : 'port'}. The MCP server will continue monitoring for the connection.`,
+          },
+        ],
+        structuredContent: { session: conn.sessionName, port, socket_path: socketPath, connected: false },
+        isError: false,
+      };
+    }
+
+    const response = await conn.sendToElixir('hello');
+    const data = JSON.parse(response);
+
+    if (data.auth_required && !data.authenticated) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error connecting to Scenic application on ${endpoint} (session "${conn.sessionName}"): ${MISSING_TOKEN_ERROR}`,
+          },
+        ],
+        structuredContent: { session: conn.sessionName, port, socket_path: socketPath, connected: false, server: data },
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Successfully connected to Scenic application! (session "${conn.sessionName}", ${endpoint})\n\nServer info:\n${JSON.stringify(data, null, 2)}`,
+        },
+      ],
+      structuredContent: { session: conn.sessionName, port, socket_path: socketPath, connected: true, server: data },
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error connecting to Scenic application: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+const MAX_DISCOVERY_PORTS = 1000;
+
+async function handleDiscoverScenicApps(conn: ConnectionContext, args: any) {
+  try {
+    const { start_port = 9990, end_port = 9999, timeout_ms = 500 } = args;
+
+    if (end_port < start_port || end_port - start_port + 1 > MAX_DISCOVERY_PORTS) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: Port range must be ascending and cover at most ${MAX_DISCOVERY_PORTS} ports`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const apps = await discoverScenicApps(start_port, end_port, timeout_ms);
+
+    let resultText = `Found ${apps.length} Scenic app(s) on ports ${start_port}-${end_port}\n${'='.repeat(50)}\n\n`;
+
+    if (apps.length > 0) {
+      apps.forEach((app, i) => {
+        resultText += `${i + 1}. ${app.appName} (port ${app.port})\n`;
+        resultText += `   Viewport: ${app.viewportName}\n`;
+        resultText += `   Driver: ${app.driverName}\n\n`;
+      });
+      resultText += 'Use connect_scenic({ index: N }) to connect to one of these apps.\n';
+    } else {
+      resultText += 'No Scenic apps responded. Make sure your app includes ScenicMcp and is running.\n';
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: resultText,
+        },
+      ],
+      structuredContent: { apps },
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error discovering Scenic apps: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleListSessions(conn: ConnectionContext, args: any) {
+  const sessions = listSessions();
+
+  let resultText = `Sessions (${sessions.length})\n${'='.repeat(50)}\n\n`;
+  sessions.forEach((session) => {
+    const endpoint = session.socketPath !== null ? `socket ${session.socketPath}` : `port ${session.port}`;
+    resultText += `${session.active ? '* ' : '  '}${session.name} - ${endpoint}, ${session.connectionState}`;
+    if (session.pendingRequests > 0) {
+      resultText += `, ${session.pendingRequests} pending request(s)`;
+    }
+    resultText += '\n';
+  });
+  resultText += `\nActive session: ${getActiveSessionName()}`;
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: resultText,
+      },
+    ],
+    structuredContent: { active: getActiveSessionName(), sessions },
+  };
+}
+
+async function handleSwitchSession(conn: ConnectionContext, args: any) {
+  try {
+    const { name } = args;
+
+    if (!name) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Must provide "name" parameter',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    switchSession(name);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Active session is now "${name}"`,
+        },
+      ],
+      structuredContent: { active: name },
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error switching session: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleGetScenicStatus(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    const health = conn.getHealth();
+    const healthText = formatHealth(health);
+
+    // A rejected token drops the connection, so it would otherwise look like a missing app
+    if (health.authError !== null && !isRunning) {
+      return authFailedStatus(conn, health);
+    }
+
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Scenic MCP Status:\n- Session: ${conn.sessionName}\n- Connection: Waiting for Scenic app\n${formatEndpoint(conn)}\n${healthText}\nThe MCP server is running but no Scenic application is connected. Start your Scenic app and the connection will be automatically detected.`,
+          },
+        ],
+        structuredContent: { session: conn.sessionName, port: conn.getCurrentPort(), socket_path: conn.getSocketPath(), connected: false, health },
+      };
+    }
+
+    const response = await conn.sendToElixir({ action: 'status' });
+    const data = JSON.parse(response);
+
+    if (data.auth_required) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Scenic MCP Status:\n- Session: ${conn.sessionName}\n- Connection: Rejected (authentication required)\n${formatEndpoint(conn)}\n${healthText}\nError: ${data.error}`,
+          },
+        ],
+        structuredContent: { session: conn.sessionName, port: conn.getCurrentPort(), socket_path: conn.getSocketPath(), connected: false, health },
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Scenic MCP Status:\n- Session: ${conn.sessionName}\n- Connection: Active\n${formatEndpoint(conn)}\n${healthText}\nServer details:\n${JSON.stringify(data, null, 2)}`,
+        },
+      ],
+      structuredContent: { session: conn.sessionName, port: conn.getCurrentPort(), socket_path: conn.getSocketPath(), connected: true, server: data, health },
+    };
+  } catch (error) {
+    const health = conn.getHealth();
+    if (health.authError !== null) {
+      return authFailedStatus(conn, health);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Status: Connected but error getting details\nError: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+    };
+  }
+}
+
+function authFailedStatus(conn: ConnectionContext, health: SessionHealth) {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Scenic MCP Status:\n- Session: ${conn.sessionName}\n- Connection: Authentication failed\n${formatEndpoint(conn)}\n${formatHealth(health)}`,
+      },
+    ],
+    structuredContent: { session: conn.sessionName, port: conn.getCurrentPort(), socket_path: conn.getSocketPath(), connected: false, health },
+    isError: true,
+  };
+}
+
+async function handleSendKeys(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot send keys: No Scenic application connected.\n\nUse connect_scenic first or start your Scenic application. The MCP server will automatically detect when the app becomes available.',
+          },
+        ],
+        isError: false,
+      };
+    }
+
+    const { text, key, modifiers } = args;
+
+    if (!text && !key) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Must provide either "text" or "key" parameter',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const command = {
+      action: 'send_keys',
+      text,
+      key,
+      modifiers: modifiers || [],
+    };
+
+    const response = await conn.sendToElixir(command);
+    const data = JSON.parse(response);
+
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error sending keys: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Keys sent successfully!\n${JSON.stringify(data, null, 2)}`,
+        },
+      ],
+      structuredContent: data,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error sending keys: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleSendMouseMove(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot send mouse move: No Scenic application connected.\n\nStart your Scenic application first.',
+          },
+        ],
+        isError: false,
+      };
+    }
+
+    const { x, y } = args;
+
+    const command = {
+      action: 'send_mouse_move',
+      x,
+      y,
+    };
+
+    const response = await conn.sendToElixir(command);
+    const data = JSON.parse(response);
+
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error moving mouse: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mouse moved to (${x}, ${y})`,
+        },
+      ],
+      structuredContent: data,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error moving mouse: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleSendMouseClick(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot send mouse click: No Scenic application connected.\n\nStart your Scenic application first.',
+          },
+        ],
+        isError: false,
+      };
+    }
+
+    const { x, y, button = 'left', click_count = 1, report_hit = false } = args;
+
+    if (!(Number.isInteger(click_count) && click_count >= 1)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: "click_count" must be a positive integer',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const command = {
+      action: 'send_mouse_click',
+      x,
+      y,
+      button,
+      click_count,
+      report_hit,
+    };
+
+    const response = await conn.sendToElixir(command);
+    const data = JSON.parse(response);
+
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error clicking mouse: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mouse clicked at (${x}, ${y}) with ${button} button${click_count > 1 ? ` (${click_count} clicks)` : ''}` + (data.hit ? `\n\n${formatHit(data.hit)}` : ''),
+        },
+      ],
+      structuredContent: data,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error clicking mouse: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleSendMouseDown(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot send mouse down: No Scenic application connected.\n\nStart your Scenic application first.',
+          },
+        ],
+        isError: false,
+      };
+    }
+
+    const { x, y, button = 'left' } = args;
+
+    const command = {
+      action: 'send_mouse_down',
+      x,
+      y,
+      button,
+    };
+
+    const response = await conn.sendToElixir(command);
+    const data = JSON.parse(response);
+
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error pressing mouse button: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mouse pressed at (${x}, ${y}) with ${button} button`,
+        },
+      ],
+      structuredContent: data,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error pressing mouse button: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleSendMouseUp(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot send mouse up: No Scenic application connected.\n\nStart your Scenic application first.',
+          },
+        ],
+        isError: false,
+      };
+    }
+
+    const { x, y, button = 'left' } = args;
+
+    const command = {
+      action: 'send_mouse_up',
+      x,
+      y,
+      button,
+    };
+
+    const response = await conn.sendToElixir(command);
+    const data = JSON.parse(response);
+
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error releasing mouse button: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Mouse released at (${x}, ${y}) with ${button} button`,
+        },
+      ],
+      structuredContent: data,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error releasing mouse button: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleSendScroll(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot send scroll: No Scenic application connected.\n\nStart your Scenic application first.',
+          },
+        ],
+        isError: false,
+      };
+    }
+
+    const { dx, dy, x, y } = args;
+
+    const command = {
+      action: 'send_scroll',
+      dx,
+      dy,
+      x,
+      y,
+    };
+
+    const response = await conn.sendToElixir(command);
+    const data = JSON.parse(response);
+
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error scrolling: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: data.message || `Scroll sent: dx=${dx}, dy=${dy}`,
+        },
+      ],
+      structuredContent: data,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error scrolling: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+// Match @max_drag_steps and the pause after each move in ScenicMcp.Tools.handle_drag
+const MAX_DRAG_STEPS = 1000;
+const DRAG_STEP_MS = 10;
+
+async function handleDrag(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot drag: No Scenic application connected.\n\nStart your Scenic application first.',
+          },
+        ],
+        isError: false,
+      };
+    }
+
+    const { from_x, from_y, to_x, to_y, steps = 10, button = 'left' } = args;
+    const from_element_id = args.from_selector ? await resolveElementId(conn, args.from_selector) : args.from_element_id;
+    const to_element_id = args.to_selector ? await resolveElementId(conn, args.to_selector) : args.to_element_id;
+
+    const hasFrom = from_element_id || (from_x !== undefined && from_y !== undefined);
+    const hasTo = to_element_id || (to_x !== undefined && to_y !== undefined);
+
+    if (!hasFrom || !hasTo) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Must provide a start point ("from_x"/"from_y", "from_element_id" or "from_selector") and an end point ("to_x"/"to_y", "to_element_id" or "to_selector")',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const command = {
+      action: 'drag',
+      from_x,
+      from_y,
+      from_element_id,
+      to_x,
+      to_y,
+      to_element_id,
+      steps,
+      button,
+    };
+
+    // The app pauses between moves, so a long drag needs longer than one command
+    const stepCount = Number.isInteger(steps) ? Math.min(Math.max(steps, 1), MAX_DRAG_STEPS) : 0;
+    const timeoutMs = conn.getCommandTimeoutMs() + stepCount * DRAG_STEP_MS;
+
+    const response = await conn.sendToElixir(command, undefined, timeoutMs);
+    const data = JSON.parse(response);
+
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error dragging: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Dragged from (${data.from.x}, ${data.from.y}) to (${data.to.x}, ${data.to.y}) in ${data.steps} steps with ${button} button`,
+        },
+      ],
+      structuredContent: data,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error dragging: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleInspectViewport(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot inspect viewport: No Scenic application connected.\n\nStart your Scenic application first to inspect its interface.',
+          },
+        ],
+        isError: false,
+      };
+    }
+
+    const { mode = 'summary', max_depth, root } = args;
+
+    if (mode !== 'summary' && mode !== 'tree') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: Invalid mode "${mode}". Use "summary" or "tree".`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (max_depth !== undefined && !(Number.isInteger(max_depth) && max_depth > 0)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: "max_depth" must be a positive integer',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const command: any = {
+      action: 'inspect_viewport',
+    };
+
+    if (mode === 'tree') {
+      command.mode = 'tree';
+      if (max_depth !== undefined) command.max_depth = max_depth;
+      if (root !== undefined) command.root = root;
+    }
+
+    const response = await conn.sendToElixir(command);
+    const data = JSON.parse(response);
+
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error inspecting viewport: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (mode === 'tree') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatSceneTree(data),
+          },
+        ],
+        structuredContent: data,
+      };
+    }
+
+    let inspectionText = `Viewport Inspection Results\n${'='.repeat(50)}\n\n`;
+
+    if (data.visual_description) {
+      inspectionText += `Visual Description: ${data.visual_description}\n`;
+      inspectionText += `Script Count: ${data.script_count}\n\n`;
+    }
+
+    if (data.semantic_elements && data.semantic_elements.count > 0) {
+      inspectionText += `Semantic DOM Summary\n${'-'.repeat(30)}\n`;
+      inspectionText += `Total Elements: ${data.semantic_elements.count}\n`;
+      inspectionText += `Clickable Elements: ${data.semantic_elements.clickable_count}\n`;
+
+      if (data.semantic_elements.summary) {
+        inspectionText += `Summary: ${data.semantic_elements.summary}\n`;
+      }
+
+      if (data.semantic_elements.by_type && Object.keys(data.semantic_elements.by_type).length > 0) {
+        inspectionText += `\nElements by Type:\n`;
+        for (const [type, count] of Object.entries(data.semantic_elements.by_type)) {
+          inspectionText += `  - ${type}: ${count}\n`;
+        }
+      }
+
+      const clickableElements = data.semantic_elements.elements?.filter((e: any) => e.clickable) || [];
+      if (clickableElements.length > 0) {
+        inspectionText += `\nClickable Elements:\n`;
+        clickableElements.forEach((elem: any) => {
+          const posStr = elem.position ? ` at (${elem.position.x}, ${elem.position.y})` : '';
+          inspectionText += `  - ${elem.label || elem.type}${posStr}\n`;
+          if (elem.description) {
+            inspectionText += `    ${elem.description}\n`;
+          }
+        });
+      }
+    } else {
+      inspectionText += `\nNo semantic DOM information available.\n`;
+      inspectionText += `(Components need semantic annotations to appear here)\n`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: inspectionText,
+        },
+      ],
+      structuredContent: data,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error inspecting viewport: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+const SCREENSHOT_OUTPUTS = ['image', 'path'];
+
+async function handleTakeScreenshot(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot take screenshot: Scenic TCP server is not running.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { output = 'image', filename, region, selector, max_width, max_height } = args;
+
+    if (!SCREENSHOT_OUTPUTS.includes(output)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: "output" must be one of ${SCREENSHOT_OUTPUTS.join(', ')} (got ${JSON.stringify(output)})`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const element_id = selector ? await resolveElementId(conn, selector) : args.element_id;
+
+    if (output === 'path' && !filename) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Please provide a filename path (e.g., "/tmp/screenshot.png") for reliable screenshot capture.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const command = {
+      action: 'take_screenshot',
+      format: output === 'image' ? 'base64' : 'path',
+      filename,
+    };
+
+    const response = await conn.sendToElixir(command);
+    const data = JSON.parse(response);
+
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error taking screenshot: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (output === 'path') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Screenshot saved to: ${data.path}`,
+          },
+        ],
+        structuredContent: { path: data.path },
+      };
+    }
+
+    let png = Buffer.from(data.data, 'base64');
+    let summary = `Screenshot captured (${png.length} bytes), saved to: ${data.path}`;
+    let returnedSize: { width: number; height: number } | undefined;
+
+    const cropRegion: Region | undefined = element_id ? await getElementBounds(conn, element_id) : region;
+
+    if (cropRegion || max_width || max_height) {
+      let image = decodePng(png);
+      const originalSize = `${image.width}x${image.height}`;
+
+      if (cropRegion) {
+        image = cropImage(image, cropRegion);
+      }
+      image = fitImage(image, max_width, max_height);
+      png = encodePng(image);
+      returnedSize = { width: image.width, height: image.height };
+
+      summary = `Screenshot captured (${originalSize}, returned ${image.width}x${image.height}${element_id ? ` cropped to ${element_id}` : cropRegion ? ' cropped to region' : ''}), saved to: ${data.path}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'image',
+          data: png.toString('base64'),
+          mimeType: 'image/png',
+        },
+        {
+          type: 'text',
+          text: summary,
+        },
+      ],
+      structuredContent: {
+        path: data.path,
+        size_bytes: png.length,
+        ...returnedSize,
+        ...(cropRegion && { crop: cropRegion }),
+      },
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error taking screenshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+const MAX_REPORTED_REGIONS = 10;
+
+async function handleCompareScreenshot(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot compare screenshot: Scenic TCP server is not running.',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { baseline, update_baseline = false, tolerance = 0, pixel_threshold = 8, ignore_regions = [] } = args;
+    const diff_path = args.diff_path || baseline?.replace(/(\.png)?$/i, '.diff.png');
+
+    if (!baseline) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Must provide "baseline" parameter',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const data = await queryElixir(conn, { action: 'take_screenshot', format: 'base64' });
+    const currentPng = Buffer.from(data.data, 'base64');
+
+    if (update_baseline) {
+      await fs.mkdir(dirname(baseline), { recursive: true });
+      await fs.writeFile(baseline, currentPng);
+      await fs.rm(diff_path, { force: true });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Baseline updated: ${baseline} (${currentPng.length} bytes)`,
+          },
+        ],
+        structuredContent: { passed: true, baseline, baseline_updated: true },
+      };
+    }
+
+    let baselinePng: Buffer;
+    try {
+      baselinePng = await fs.readFile(baseline);
+    } catch {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: Baseline ${baseline} not found. Call compare_screenshot with update_baseline: true to create it from the current frame.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const ignore: Region[] = [];
+    for (const entry of ignore_regions) {
+      if (entry.selector) {
+        const matches = resolveSelector(await getSemanticElements(conn), entry.selector);
+        matches.forEach((el) => el.bounds && ignore.push(boundsToRegion(el.bounds)));
+      } else {
+        ignore.push(entry.element_id ? await getElementBounds(conn, entry.element_id) : entry);
+      }
+    }
+
+    const result = diffImages(decodePng(baselinePng), decodePng(currentPng), {
+      pixelThreshold: pixel_threshold,
+      ignore,
+    });
+    const passed = result.mismatchPercent <= tolerance;
+    const mismatch = Number(result.mismatchPercent.toFixed(4));
+
+    if (result.changedPixels > 0) {
+      await fs.writeFile(diff_path, encodePng(result.diffImage));
+    } else {
+      // A diff left by an earlier failed comparison would look like a current failure
+      await fs.rm(diff_path, { force: true });
+    }
 
-// ========================================================================
-// Tool Handler Router
-// ========================================================================
+    let resultText = `Visual comparison ${passed ? 'PASSED' : 'FAILED'} against ${baseline}\n`;
+    resultText += `Mismatch: ${mismatch}% (${result.changedPixels} of ${result.comparedPixels} pixels, tolerance ${tolerance}%)\n`;
+    if (ignore.length > 0) {
+      resultText += `Ignored regions: ${ignore.length}\n`;
+    }
 
-export async function handleToolCall(name: string, args: any) {
-  switch (name) {
-    case 'connect_scenic':
-      return await handleConnectScenic(args);
-    case 'get_scenic_status':
-      return await handleGetScenicStatus(args);
-    case 'send_keys':
-      return await handleSendKeys(args);
-    case 'send_mouse_move':
-      return await handleSendMouseMove(args);
-    case 'send_mouse_click':
-      return await handleSendMouseClick(args);
-    case 'inspect_viewport':
-      return await handleInspectViewport(args);
-    case 'take_screenshot':
-      return await handleTakeScreenshot(args);
-    case 'find_clickable_elements':
-      return await handleFindClickableElements(args);
-    case 'click_element':
-      return await handleClickElement(args);
-    case 'hover_element':
-      return await handleHoverElement(args);
-    default:
-      throw new Error(`Unknown tool: ${name}`);
-  }
-}
+    if (result.changedPixels > 0) {
+      resultText += `Diff image written to: ${diff_path}\n`;
+      resultText += `\nChanged areas (${result.changedRegions.length}):\n`;
+      result.changedRegions.slice(0, MAX_REPORTED_REGIONS).forEach((r) => {
+        resultText += `  - (${r.x}, ${r.y}) ${r.width}x${r.height}\n`;
+      });
+      if (result.changedRegions.length > MAX_REPORTED_REGIONS) {
+        resultText += `  ... and ${result.changedRegions.length - MAX_REPORTED_REGIONS} more\n`;
+      }
+    }
 
-// ========================================================================
-// Tool Handler Implementations
-// ========================================================================
+    if (!passed) {
+      resultText += '\nIf this change is intended, approve it with update_baseline: true.\n';
+    }
 
-async function handleConnectScenic(args: any) {
-  try {
-    const { port = 9999 } = args;
+    const content: any[] = [
+      {
+        type: 'text',
+        text: resultText,
+      },
+    ];
+    if (!passed) {
+      content.push({
+        type: 'image',
+        data: encodePng(fitImage(result.diffImage, 800, 600)).toString('base64'),
+        mimeType: 'image/png',
+      });
+    }
 
-    conn.setCurrentPort(port);
-    const isRunning = await conn.checkTCPServer(port);
+    return {
+      content,
+      structuredContent: {
+        passed,
+        baseline,
+        baseline_updated: false,
+        mismatch_percent: mismatch,
+        changed_pixels: result.changedPixels,
+        compared_pixels: result.comparedPixels,
+        tolerance,
+        changed_regions: result.changedRegions,
+        ...(result.changedPixels > 0 && { diff_path }),
+      },
+      isError: !passed,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error comparing screenshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
 
+async function handleGetRenderedText(conn: ConnectionContext, args: any) {
+  try {
+    const isRunning = await conn.checkTCPServer();
     if (!isRunning) {
       return {
         content: [
           {
             type: 'text',
-            text: `No Scenic TCP server found on port ${port}.\n\nStatus: Waiting for connection\n\nTo use Scenic MCP, your Scenic application needs to include the ScenicMcp.Server module and start it on the specified port. The MCP server will continue monitoring for the connection.`,
+            text: 'Cannot get rendered text: No Scenic application connected.\n\nStart your Scenic application first.',
           },
         ],
         isError: false,
       };
     }
 
-    const response = await conn.sendToElixir('hello');
+    const { mode = 'flat', y_tolerance } = args;
+
+    const command = {
+      action: 'get_rendered_text',
+      mode,
+      y_tolerance,
+    };
+
+    const response = await conn.sendToElixir(command);
     const data = JSON.parse(response);
 
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error getting rendered text: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    let resultText = `Rendered Text (${mode})\n${'='.repeat(50)}\n\n`;
+
+    if (mode === 'lines') {
+      data.lines.forEach((line: any, index: number) => {
+        resultText += `${index + 1}. [y=${line.y}] ${line.text.join(' ')}\n`;
+      });
+    } else if (mode === 'positioned') {
+      data.items.forEach((item: any) => {
+        resultText += `(${item.x}, ${item.y}) ${item.text}\n`;
+      });
+    } else {
+      resultText += `${data.text}\n`;
+    }
+
+    if (data.stats) {
+      resultText += `\nText primitives: ${data.stats.text_primitives}, Lines: ${data.stats.line_count}, Characters: ${data.stats.total_text_length}\n`;
+    }
+
     return {
       content: [
         {
           type: 'text',
-          text: `Successfully connected to Scenic application!\n\nServer info:\n${JSON.stringify(data, null, 2)}`,
+          text: resultText,
         },
       ],
+      structuredContent: data,
     };
   } catch (error) {
     return {
       content: [
         {
           type: 'text',
-          text: `Error connecting to Scenic application: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          text: `Error getting rendered text: ${error instanceof Error ? error.message : 'Unknown error'}`,
         },
       ],
       isError: true,
@@ -253,45 +2729,88 @@ async function handleConnectScenic(args: any) {
   }
 }
 
-async function handleGetScenicStatus(args: any) {
+async function handleAssertText(conn: ConnectionContext, args: any) {
   try {
     const isRunning = await conn.checkTCPServer();
-
     if (!isRunning) {
       return {
         content: [
           {
             type: 'text',
-            text: `Scenic MCP Status:\n- Connection: Waiting for Scenic app\n- TCP Port: ${conn.getCurrentPort()}\n\nThe MCP server is running but no Scenic application is connected. Start your Scenic app and the connection will be automatically detected.`,
+            text: 'Cannot assert text: No Scenic application connected.\n\nStart your Scenic application first.',
           },
         ],
+        isError: false,
       };
     }
 
-    const response = await conn.sendToElixir({ action: 'status' });
+    const { text, visible, line, wraps, line_count } = args;
+
+    if (!text && line_count === undefined) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Must provide "text" and/or "line_count" parameter',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const command = {
+      action: 'assert_text',
+      text,
+      visible,
+      line,
+      wraps,
+      line_count,
+    };
+
+    const response = await conn.sendToElixir(command);
     const data = JSON.parse(response);
 
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error asserting text: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    let resultText = `Text assertion ${data.passed ? 'PASSED' : 'FAILED'}\n`;
+    data.checks.forEach((check: any) => {
+      resultText += `  ${check.passed ? '✓' : '✗'} ${check.check}: expected ${JSON.stringify(check.expected)}, got ${JSON.stringify(check.actual)}\n`;
+    });
+
     return {
       content: [
         {
           type: 'text',
-          text: `Scenic MCP Status:\n- Connection: Active\n- TCP Port: ${conn.getCurrentPort()}\n\nServer details:\n${JSON.stringify(data, null, 2)}`,
+          text: resultText,
         },
       ],
+      structuredContent: data,
+      isError: !data.passed,
     };
   } catch (error) {
     return {
       content: [
         {
           type: 'text',
-          text: `Status: Connected but error getting details\nError: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          text: `Error asserting text: ${error instanceof Error ? error.message : 'Unknown error'}`,
         },
       ],
+      isError: true,
     };
   }
 }
 
-async function handleSendKeys(args: any) {
+async function handleWaitFor(conn: ConnectionContext, args: any) {
   try {
     const isRunning = await conn.checkTCPServer();
     if (!isRunning) {
@@ -299,45 +2818,69 @@ async function handleSendKeys(args: any) {
         content: [
           {
             type: 'text',
-            text: 'Cannot send keys: No Scenic application connected.\n\nUse connect_scenic first or start your Scenic application. The MCP server will automatically detect when the app becomes available.',
+            text: 'Cannot wait for condition: No Scenic application connected.\n\nStart your Scenic application first.',
           },
         ],
         isError: false,
       };
     }
 
-    const { text, key, modifiers } = args;
+    const { condition, text, element_id, selector, timeout_ms = 5000, interval_ms = 100 } = args;
 
-    if (!text && !key) {
+    if ((condition === 'text_visible' || condition === 'text_absent') && !text) {
       return {
         content: [
           {
             type: 'text',
-            text: 'Error: Must provide either "text" or "key" parameter',
+            text: `Error: Must provide "text" parameter for condition "${condition}"`,
           },
         ],
         isError: true,
       };
     }
 
-    const command = {
-      action: 'send_keys',
-      text,
-      key,
-      modifiers: modifiers || [],
-    };
+    if ((condition === 'element_present' || condition === 'element_absent') && !element_id && !selector) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error: Must provide "element_id" or "selector" parameter for condition "${condition}"`,
+          },
+        ],
+        isError: true,
+      };
+    }
 
-    const response = await conn.sendToElixir(command);
-    const data = JSON.parse(response);
+    const startedAt = Date.now();
+    let baselineScriptCount: number | undefined;
+    let polls = 0;
+    let result: WaitCheck;
 
-    if (data.error) {
+    while (true) {
+      polls++;
+      result = await checkWaitCondition(conn, condition, { text, element_id, selector, baselineScriptCount });
+
+      if (condition === 'scripts_changed' && baselineScriptCount === undefined) {
+        baselineScriptCount = result.scriptCount;
+      } else if (result.met) {
+        break;
+      }
+
+      if (Date.now() - startedAt >= timeout_ms) break;
+      await new Promise(resolve => setTimeout(resolve, interval_ms));
+    }
+
+    const waited = Date.now() - startedAt;
+
+    if (!result.met) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error sending keys: ${data.error}`,
+            text: `Timed out after ${waited}ms waiting for ${condition} (${polls} polls)\nFinal state: ${result.state}`,
           },
         ],
+        structuredContent: { condition, met: false, waited_ms: waited, polls, state: result.state },
         isError: true,
       };
     }
@@ -346,16 +2889,17 @@ async function handleSendKeys(args: any) {
       content: [
         {
           type: 'text',
-          text: `Keys sent successfully!\n${JSON.stringify(data, null, 2)}`,
+          text: `Condition ${condition} met after ${waited}ms (${polls} polls)\nFinal state: ${result.state}`,
         },
       ],
+      structuredContent: { condition, met: true, waited_ms: waited, polls, state: result.state },
     };
   } catch (error) {
     return {
       content: [
         {
           type: 'text',
-          text: `Error sending keys: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          text: `Error waiting for condition: ${error instanceof Error ? error.message : 'Unknown error'}`,
         },
       ],
       isError: true,
@@ -363,7 +2907,7 @@ async function handleSendKeys(args: any) {
   }
 }
 
-async function handleSendMouseMove(args: any) {
+async function handleStartInputTrace(conn: ConnectionContext, args: any) {
   try {
     const isRunning = await conn.checkTCPServer();
     if (!isRunning) {
@@ -371,19 +2915,19 @@ async function handleSendMouseMove(args: any) {
         content: [
           {
             type: 'text',
-            text: 'Cannot send mouse move: No Scenic application connected.\n\nStart your Scenic application first.',
+            text: 'Cannot start input trace: No Scenic application connected.\n\nStart your Scenic application first.',
           },
         ],
         isError: false,
       };
     }
 
-    const { x, y } = args;
+    const { max_events, include_moves } = args;
 
     const command = {
-      action: 'send_mouse_move',
-      x,
-      y,
+      action: 'start_input_trace',
+      max_events,
+      include_moves,
     };
 
     const response = await conn.sendToElixir(command);
@@ -394,7 +2938,7 @@ async function handleSendMouseMove(args: any) {
         content: [
           {
             type: 'text',
-            text: `Error moving mouse: ${data.error}`,
+            text: `Error starting input trace: ${data.error}`,
           },
         ],
         isError: true,
@@ -405,16 +2949,17 @@ async function handleSendMouseMove(args: any) {
       content: [
         {
           type: 'text',
-          text: `Mouse moved to (${x}, ${y})`,
+          text: `Input trace started (keeping up to ${data.max_events} events${data.include_moves ? '' : ', cursor moves excluded'}).\n\nInteract with the app, then call get_input_trace or stop_input_trace to see what it received.`,
         },
       ],
+      structuredContent: data,
     };
   } catch (error) {
     return {
       content: [
         {
           type: 'text',
-          text: `Error moving mouse: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          text: `Error starting input trace: ${error instanceof Error ? error.message : 'Unknown error'}`,
         },
       ],
       isError: true,
@@ -422,7 +2967,8 @@ async function handleSendMouseMove(args: any) {
   }
 }
 
-async function handleSendMouseClick(args: any) {
+// get_input_trace and stop_input_trace differ only in whether the trace keeps running
+async function handleInputTraceLog(conn: ConnectionContext, action: 'get_input_trace' | 'stop_input_trace') {
   try {
     const isRunning = await conn.checkTCPServer();
     if (!isRunning) {
@@ -430,51 +2976,172 @@ async function handleSendMouseClick(args: any) {
         content: [
           {
             type: 'text',
-            text: 'Cannot send mouse click: No Scenic application connected.\n\nStart your Scenic application first.',
+            text: 'Cannot read input trace: No Scenic application connected.\n\nStart your Scenic application first.',
           },
         ],
         isError: false,
       };
     }
 
-    const { x, y, button = 'left' } = args;
+    const response = await conn.sendToElixir({ action });
+    const data = JSON.parse(response);
 
-    const command = {
-      action: 'send_mouse_click',
-      x,
-      y,
-      button,
+    if (data.error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error reading input trace: ${data.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: formatInputTrace(data),
+        },
+      ],
+      structuredContent: data,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error reading input trace: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
     };
+  }
+}
 
-    const response = await conn.sendToElixir(command);
-    const data = JSON.parse(response);
+async function handleStartRecording(conn: ConnectionContext, args: any) {
+  try {
+    const { name } = args;
+
+    if (!name) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: Must provide "name" parameter',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    startRecording(name);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Recording started: "${name}"\n\nInteractions, waits and text assertions will be captured until stop_recording is called.`,
+        },
+      ],
+      structuredContent: { recording: true, name },
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error starting recording: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleStopRecording(conn: ConnectionContext, args: any) {
+  try {
+    const { format = 'both', json_path, exunit_path } = args;
+    const { scenario, skipped } = stopRecording();
+
+    const json = JSON.stringify(scenario, null, 2);
+    const exunit = scenarioToExUnit(scenario);
+
+    if (json_path) {
+      await fs.writeFile(json_path, json + '\n');
+    }
+    if (exunit_path) {
+      await fs.writeFile(exunit_path, exunit);
+    }
+
+    let resultText = `Recording stopped: "${scenario.name}" (${scenario.steps.length} steps`;
+    resultText += skipped > 0 ? `, ${skipped} failed call(s) not recorded)\n` : ')\n';
+    if (json_path) resultText += `JSON scenario written to: ${json_path}\n`;
+    if (exunit_path) resultText += `ExUnit test written to: ${exunit_path}\n`;
+
+    if (format === 'json' || format === 'both') {
+      resultText += `\nJSON scenario:\n${json}\n`;
+    }
+    if (format === 'exunit' || format === 'both') {
+      resultText += `\nExUnit test:\n${exunit}`;
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: resultText,
+        },
+      ],
+      structuredContent: { scenario, skipped, exunit },
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error stopping recording: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+async function handleGetRecentActivity(args: any) {
+  const { limit = 20, tool, session, errors_only = false } = args;
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: 'Error: "limit" must be an integer between 1 and 500',
+        },
+      ],
+      isError: true,
+    };
+  }
 
-    if (data.error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `Error clicking mouse: ${data.error}`,
-          },
-        ],
-        isError: true,
-      };
-    }
+  try {
+    const { entries, source } = await getRecentActivity({ limit, tool, session, errorsOnly: errors_only });
 
     return {
       content: [
         {
           type: 'text',
-          text: `Mouse clicked at (${x}, ${y}) with ${button} button`,
+          text: formatActivity(entries, source),
         },
       ],
+      structuredContent: { source, entries },
     };
   } catch (error) {
     return {
       content: [
         {
           type: 'text',
-          text: `Error clicking mouse: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          text: `Error reading audit log: ${error instanceof Error ? error.message : 'Unknown error'}`,
         },
       ],
       isError: true,
@@ -482,93 +3149,187 @@ async function handleSendMouseClick(args: any) {
   }
 }
 
-async function handleInspectViewport(args: any) {
+// Full replies are in structuredContent; the text view only needs enough to recognise them
+const ACTIVITY_REPLY_CHARS = 300;
+
+function formatActivity(entries: any[], source: string): string {
+  let text = `Recent activity (${entries.length} entries, newest first, from ${source})\n${'='.repeat(50)}\n`;
+
+  if (entries.length === 0) {
+    return text + '\nNo matching activity recorded yet.';
+  }
+
+  for (const entry of entries) {
+    if (entry.event !== 'tool_call') {
+      text += `\n${entry.timestamp} ${entry.event}${entry.tool ? ` ${entry.tool}` : ''}${entry.outcome ? `: ${entry.outcome}` : ''}\n`;
+      continue;
+    }
+
+    const parent = entry.parent_id !== undefined ? `, step of call #${entry.parent_id}` : '';
+    text += `\n#${entry.id} ${entry.timestamp} ${entry.tool} on ${entry.session} (${entry.latency_ms}ms${parent})\n`;
+    text += `  args: ${JSON.stringify(entry.args)}\n`;
+
+    for (const message of entry.bridge ?? []) {
+      text += `  → ${message.sent}\n`;
+      if (message.reply !== null) {
+        const chars = message.reply_chars ?? message.reply.length;
+        const reply = chars > ACTIVITY_REPLY_CHARS ? `${message.reply.slice(0, ACTIVITY_REPLY_CHARS)}… (${chars} chars)` : message.reply;
+        text += `  ← ${reply} (${message.latency_ms}ms)\n`;
+      } else {
+        text += `  ✗ ${message.error} (${message.latency_ms}ms)\n`;
+      }
+    }
+
+    if (entry.error) {
+      text += `  error: ${entry.error}\n`;
+    }
+  }
+
+  return text;
+}
+
+// Tools that cannot be used as scenario steps
+const NON_SCENARIO_TOOLS = ['run_scenario', 'start_recording', 'stop_recording'];
+
+// Steps that answer without a connected app
+const APP_INDEPENDENT_TOOLS = ['connect_scenic', 'get_scenic_status', ...SESSION_MANAGEMENT_TOOLS];
+
+// Unknown sessions are left to handleToolCall to report
+function stepNeedsApp(tool: string, session: string | undefined): boolean {
+  return !APP_INDEPENDENT_TOOLS.includes(tool) && (session === undefined || hasSession(session));
+}
+
+async function handleRunScenario(conn: ConnectionContext, args: any) {
   try {
-    const isRunning = await conn.checkTCPServer();
-    if (!isRunning) {
+    const { path, stop_on_failure = true } = args;
+    let { steps } = args;
+    let name = 'inline scenario';
+
+    if (path) {
+      const scenario = JSON.parse(await fs.readFile(path, 'utf8'));
+      steps = Array.isArray(scenario) ? scenario : scenario.steps;
+      name = scenario.name || path;
+    }
+
+    if (!Array.isArray(steps) || steps.length === 0) {
       return {
         content: [
           {
             type: 'text',
-            text: 'Cannot inspect viewport: No Scenic application connected.\n\nStart your Scenic application first to inspect its interface.',
+            text: 'Error: Must provide a non-empty "steps" array or a "path" to a scenario file',
           },
         ],
-        isError: false,
+        isError: true,
       };
     }
 
-    const command = {
-      action: 'inspect_viewport',
-    };
-
-    const response = await conn.sendToElixir(command);
-    const data = JSON.parse(response);
-
-    if (data.error) {
+    const invalid = steps.findIndex((step: any) => typeof step?.tool !== 'string' || NON_SCENARIO_TOOLS.includes(step.tool));
+    if (invalid !== -1) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error inspecting viewport: ${data.error}`,
+            text: `Error: Step ${invalid + 1} is invalid. Each step needs a "tool" name, and ${NON_SCENARIO_TOOLS.join(', ')} cannot be used as steps.`,
           },
         ],
         isError: true,
       };
     }
 
-    let inspectionText = `Viewport Inspection Results\n${'='.repeat(50)}\n\n`;
-
-    if (data.visual_description) {
-      inspectionText += `Visual Description: ${data.visual_description}\n`;
-      inspectionText += `Script Count: ${data.script_count}\n\n`;
+    const isRunning = await conn.checkTCPServer();
+    if (!isRunning) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Cannot run scenario: No Scenic application connected.\n\nStart your Scenic application first.',
+          },
+        ],
+        isError: true,
+      };
     }
 
-    if (data.semantic_elements && data.semantic_elements.count > 0) {
-      inspectionText += `Semantic DOM Summary\n${'-'.repeat(30)}\n`;
-      inspectionText += `Total Elements: ${data.semantic_elements.count}\n`;
-      inspectionText += `Clickable Elements: ${data.semantic_elements.clickable_count}\n`;
-
-      if (data.semantic_elements.summary) {
-        inspectionText += `Summary: ${data.semantic_elements.summary}\n`;
+    const startedAt = Date.now();
+    const report: string[] = [];
+    const results: { tool: string; status: 'passed' | 'failed' | 'skipped'; elapsed_ms?: number; error?: string }[] = [];
+    let passed = 0;
+    let failed = 0;
+
+    for (let i = 0; i < steps.length; i++) {
+      const { tool } = steps[i];
+      // Not a destructuring default: that would let "args": null through
+      const stepArgs = steps[i].args ?? {};
+
+      if (failed > 0 && stop_on_failure) {
+        report.push(`${i + 1}. - ${tool} (skipped)`);
+        results.push({ tool, status: 'skipped' });
+        continue;
       }
 
-      if (data.semantic_elements.by_type && Object.keys(data.semantic_elements.by_type).length > 0) {
-        inspectionText += `\nElements by Type:\n`;
-        for (const [type, count] of Object.entries(data.semantic_elements.by_type)) {
-          inspectionText += `  - ${type}: ${count}\n`;
+      const stepStartedAt = Date.now();
+      let message: string | null = null;
+
+      if (typeof stepArgs !== 'object' || Array.isArray(stepArgs)) {
+        message = 'Error: Step "args" must be an object';
+      } else {
+        const session = stepArgs.session ?? args.session;
+
+        try {
+          // Tools report a missing app as a plain message rather than an error, which
+          // would pass the step, so check for it here
+          if (stepNeedsApp(tool, session) && !(await getConnectionContext(session).checkTCPServer(undefined, false))) {
+            message = `Cannot run ${tool}: No Scenic application connected${session !== undefined ? ` to session "${session}"` : ''}.`;
+          } else {
+            const result = await handleToolCall(tool, {
+              ...stepArgs,
+              session,
+              command_timeout_ms: stepArgs.command_timeout_ms ?? args.command_timeout_ms,
+            });
+            if (result.isError) {
+              message = result.content.find((c: any) => c.type === 'text')?.text ?? 'Unknown error';
+            }
+          }
+        } catch (error) {
+          // An unknown tool, for one; the rest of the report still matters
+          message = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
         }
       }
-
-      const clickableElements = data.semantic_elements.elements?.filter((e: any) => e.clickable) || [];
-      if (clickableElements.length > 0) {
-        inspectionText += `\nClickable Elements:\n`;
-        clickableElements.forEach((elem: any) => {
-          const posStr = elem.position ? ` at (${elem.position.x}, ${elem.position.y})` : '';
-          inspectionText += `  - ${elem.label || elem.type}${posStr}\n`;
-          if (elem.description) {
-            inspectionText += `    ${elem.description}\n`;
-          }
-        });
+      const elapsed = Date.now() - stepStartedAt;
+
+      if (message !== null) {
+        failed++;
+        report.push(`${i + 1}. ✗ ${tool} (${elapsed}ms)\n     ${message.trim().split('\n').join('\n     ')}`);
+        results.push({ tool, status: 'failed', elapsed_ms: elapsed, error: message.trim() });
+      } else {
+        passed++;
+        report.push(`${i + 1}. ✓ ${tool} (${elapsed}ms)`);
+        results.push({ tool, status: 'passed', elapsed_ms: elapsed });
       }
-    } else {
-      inspectionText += `\nNo semantic DOM information available.\n`;
-      inspectionText += `(Components need semantic annotations to appear here)\n`;
     }
 
+    const status = failed === 0 ? 'PASSED' : 'FAILED';
+    const skipped = steps.length - passed - failed;
+    const duration = Date.now() - startedAt;
+    let resultText = `Scenario "${name}" ${status} in ${duration}ms\n`;
+    resultText += `${passed} passed, ${failed} failed, ${skipped} skipped\n${'='.repeat(50)}\n\n`;
+    resultText += report.join('\n') + '\n';
+
     return {
       content: [
         {
           type: 'text',
-          text: inspectionText,
+          text: resultText,
         },
       ],
+      structuredContent: { name, passed: failed === 0, duration_ms: duration, counts: { passed, failed, skipped }, steps: results },
+      isError: failed > 0,
     };
   } catch (error) {
     return {
       content: [
         {
           type: 'text',
-          text: `Error inspecting viewport: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          text: `Error running scenario: ${error instanceof Error ? error.message : 'Unknown error'}`,
         },
       ],
       isError: true,
@@ -576,7 +3337,7 @@ async function handleInspectViewport(args: any) {
   }
 }
 
-async function handleTakeScreenshot(args: any) {
+async function handleFindClickableElements(conn: ConnectionContext, args: any) {
   try {
     const isRunning = await conn.checkTCPServer();
     if (!isRunning) {
@@ -584,62 +3345,77 @@ async function handleTakeScreenshot(args: any) {
         content: [
           {
             type: 'text',
-            text: 'Cannot take screenshot: Scenic TCP server is not running.',
+            text: 'Cannot find clickable elements: No Scenic application connected.\n\nStart your Scenic application first.',
           },
         ],
-        isError: true,
+        isError: false,
       };
     }
 
-    const { filename } = args;
-
-    if (!filename) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Error: Please provide a filename path (e.g., "/tmp/screenshot.png") for reliable screenshot capture.',
-          },
-        ],
-        isError: true,
-      };
-    }
+    const { filter, selector } = args;
 
     const command = {
-      action: 'take_screenshot',
-      format: 'path',
-      filename,
+      action: 'find_clickable',
+      filter,
+      all: selector !== undefined,
     };
 
     const response = await conn.sendToElixir(command);
-    const data = JSON.parse(response);
+    let data = JSON.parse(response);
 
     if (data.error) {
       return {
         content: [
           {
             type: 'text',
-            text: `Error taking screenshot: ${data.error}`,
+            text: `Error finding clickable elements: ${data.error}`,
           },
         ],
         isError: true,
       };
     }
 
+    if (selector) {
+      const elements = resolveSelector(data.elements || [], selector).filter((el) => el.clickable);
+      data = { ...data, count: elements.length, elements };
+    }
+
+    let resultText = `Found ${data.count} clickable element(s)\n${'='.repeat(50)}\n\n`;
+
+    if (data.elements && data.elements.length > 0) {
+      data.elements.forEach((elem: any, index: number) => {
+        resultText += `${index + 1}. Element ID: ${elem.id}\n`;
+        resultText += `   Type: ${elem.type}\n`;
+        if (elem.label) {
+          resultText += `   Label: ${elem.label}\n`;
+        }
+        if (elem.center) {
+          resultText += `   Center: (${elem.center.x}, ${elem.center.y})\n`;
+        }
+        if (elem.bounds) {
+          resultText += `   Bounds: left=${elem.bounds.left}, top=${elem.bounds.top}, width=${elem.bounds.width}, height=${elem.bounds.height}\n`;
+        }
+        resultText += '\n';
+      });
+    } else {
+      resultText += 'No clickable elements found.\n';
+    }
+
     return {
       content: [
         {
           type: 'text',
-          text: `Screenshot saved to: ${data.path}`,
+          text: resultText,
         },
       ],
+      structuredContent: data,
     };
   } catch (error) {
     return {
       content: [
         {
           type: 'text',
-          text: `Error taking screenshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          text: `Error finding clickable elements: ${error instanceof Error ? error.message : 'Unknown error'}`,
         },
       ],
       isError: true,
@@ -647,7 +3423,7 @@ async function handleTakeScreenshot(args: any) {
   }
 }
 
-async function handleFindClickableElements(args: any) {
+async function handleElementAt(conn: ConnectionContext, args: any) {
   try {
     const isRunning = await conn.checkTCPServer();
     if (!isRunning) {
@@ -655,18 +3431,19 @@ async function handleFindClickableElements(args: any) {
         content: [
           {
             type: 'text',
-            text: 'Cannot find clickable elements: No Scenic application connected.\n\nStart your Scenic application first.',
+            text: 'Cannot hit-test: No Scenic application connected.\n\nStart your Scenic application first.',
           },
         ],
         isError: false,
       };
     }
 
-    const { filter } = args;
+    const { x, y } = args;
 
     const command = {
-      action: 'find_clickable',
-      filter,
+      action: 'element_at',
+      x,
+      y,
     };
 
     const response = await conn.sendToElixir(command);
@@ -677,45 +3454,28 @@ async function handleFindClickableElements(args: any) {
         content: [
           {
             type: 'text',
-            text: `Error finding clickable elements: ${data.error}`,
+            text: `Error hit-testing (${x}, ${y}): ${data.error}`,
           },
         ],
         isError: true,
       };
     }
 
-    let resultText = `Found ${data.count} clickable element(s)\n${'='.repeat(50)}\n\n`;
-
-    if (data.elements && data.elements.length > 0) {
-      data.elements.forEach((elem: any, index: number) => {
-        resultText += `${index + 1}. Element ID: ${elem.id}\n`;
-        resultText += `   Type: ${elem.type}\n`;
-        if (elem.center) {
-          resultText += `   Center: (${elem.center.x}, ${elem.center.y})\n`;
-        }
-        if (elem.bounds) {
-          resultText += `   Bounds: left=${elem.bounds.left}, top=${elem.bounds.top}, width=${elem.bounds.width}, height=${elem.bounds.height}\n`;
-        }
-        resultText += '\n';
-      });
-    } else {
-      resultText += 'No clickable elements found.\n';
-    }
-
     return {
       content: [
         {
           type: 'text',
-          text: resultText,
+          text: formatHit(data),
         },
       ],
+      structuredContent: data,
     };
   } catch (error) {
     return {
       content: [
         {
           type: 'text',
-          text: `Error finding clickable elements: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          text: `Error hit-testing: ${error instanceof Error ? error.message : 'Unknown error'}`,
         },
       ],
       isError: true,
@@ -723,7 +3483,7 @@ async function handleFindClickableElements(args: any) {
   }
 }
 
-async function handleClickElement(args: any) {
+async function handleClickElement(conn: ConnectionContext, args: any) {
   try {
     const isRunning = await conn.checkTCPServer();
     if (!isRunning) {
@@ -738,14 +3498,28 @@ async function handleClickElement(args: any) {
       };
     }
 
-    const { element_id } = args;
+    const element_id = args.selector ? await resolveElementId(conn, args.selector) : args.element_id;
 
     if (!element_id) {
       return {
         content: [
           {
             type: 'text',
-            text: 'Error: Must provide "element_id" parameter',
+            text: 'Error: Must provide "element_id" or "selector" parameter',
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const { button, click_count, offset, modifiers } = args;
+
+    if (click_count !== undefined && !(Number.isInteger(click_count) && click_count >= 1)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: 'Error: "click_count" must be a positive integer',
           },
         ],
         isError: true,
@@ -755,6 +3529,10 @@ async function handleClickElement(args: any) {
     const command = {
       action: 'click_element',
       element_id,
+      button,
+      click_count,
+      offset,
+      modifiers,
     };
 
     const response = await conn.sendToElixir(command);
@@ -776,6 +3554,15 @@ async function handleClickElement(args: any) {
     if (data.clicked_at) {
       resultText += `Clicked at coordinates: (${data.clicked_at.x}, ${data.clicked_at.y})\n`;
     }
+    if (button && button !== 'left') {
+      resultText += `Button: ${button}\n`;
+    }
+    if (click_count > 1) {
+      resultText += `Clicks: ${click_count}\n`;
+    }
+    if (modifiers?.length > 0) {
+      resultText += `Modifiers: ${modifiers.join('+')}\n`;
+    }
 
     return {
       content: [
@@ -784,6 +3571,7 @@ async function handleClickElement(args: any) {
           text: resultText,
         },
       ],
+      structuredContent: data,
     };
   } catch (error) {
     return {
@@ -798,7 +3586,7 @@ async function handleClickElement(args: any) {
   }
 }
 
-async function handleHoverElement(args: any) {
+async function handleHoverElement(conn: ConnectionContext, args: any) {
   try {
     const isRunning = await conn.checkTCPServer();
     if (!isRunning) {
@@ -813,14 +3601,14 @@ async function handleHoverElement(args: any) {
       };
     }
 
-    const { element_id } = args;
+    const element_id = args.selector ? await resolveElementId(conn, args.selector) : args.element_id;
 
     if (!element_id) {
       return {
         content: [
           {
             type: 'text',
-            text: 'Error: Must provide "element_id" parameter',
+            text: 'Error: Must provide "element_id" or "selector" parameter',
           },
         ],
         isError: true,
@@ -830,6 +3618,7 @@ async function handleHoverElement(args: any) {
     const command = {
       action: 'hover_element',
       element_id,
+      offset: args.offset,
     };
 
     const response = await conn.sendToElixir(command);
@@ -859,6 +3648,7 @@ async function handleHoverElement(args: any) {
           text: resultText,
         },
       ],
+      structuredContent: data,
     };
   } catch (error) {
     return {
@@ -872,3 +3662,235 @@ async function handleHoverElement(args: any) {
     };
   }
 }
+
+// ========================================================================
+// Helpers
+// ========================================================================
+
+function formatEndpoint(conn: ConnectionContext): string {
+  const socketPath = conn.getSocketPath();
+  return socketPath !== null ? `- Unix socket: ${socketPath}` : `- TCP Port: ${conn.getCurrentPort()}`;
+}
+
+function formatHealth(health: SessionHealth): string {
+  let text = '';
+  if (health.connectionUptimeMs !== null) {
+    text += `- Connected for: ${formatDuration(health.connectionUptimeMs)}\n`;
+  }
+  if (health.serverUptimeMs !== null) {
+    text += `- App uptime: ${formatDuration(health.serverUptimeMs)}\n`;
+  }
+  text += `- Reconnects: ${health.reconnectCount}, app restarts: ${health.restartCount}\n`;
+  if (health.lastHeartbeat !== null) {
+    text += `- Last heartbeat: ${formatDuration(Date.now() - health.lastHeartbeat)} ago\n`;
+  }
+  if (health.consecutiveFailures > 0) {
+    text += `- Failed heartbeats in a row: ${health.consecutiveFailures} (reconnecting with backoff)\n`;
+  }
+  if (health.authError !== null) {
+    text += `- Authentication error: ${health.authError}\n`;
+  }
+  return text;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+async function getElementBounds(conn: ConnectionContext, elementId: string): Promise<Region> {
+  const data = await queryElixir(conn, { action: 'find_clickable', filter: elementId });
+  const bounds = data.elements?.[0]?.bounds;
+  if (!bounds) {
+    throw new Error(`Element '${elementId}' not found or has no bounds`);
+  }
+
+  return boundsToRegion(bounds);
+}
+
+function boundsToRegion(bounds: { left: number; top: number; width: number; height: number }): Region {
+  return { x: bounds.left, y: bounds.top, width: bounds.width, height: bounds.height };
+}
+
+// All semantic elements, clickable or not, so selectors can resolve ancestry through containers
+async function getSemanticElements(conn: ConnectionContext): Promise<SemanticElement[]> {
+  const data = await queryElixir(conn, { action: 'find_clickable', all: true });
+  return data.elements || [];
+}
+
+// Resolve a selector that must match exactly one element to that element's id
+async function resolveElementId(conn: ConnectionContext, selector: string): Promise<string> {
+  return selectOne(await getSemanticElements(conn), selector).id;
+}
+
+interface WaitCheck {
+  met: boolean;
+  state: string;
+  scriptCount?: number;
+}
+
+async function checkWaitCondition(
+  conn: ConnectionContext,
+  condition: string,
+  options: { text?: string; element_id?: string; selector?: string; baselineScriptCount?: number }
+): Promise<WaitCheck> {
+  switch (condition) {
+    case 'text_visible':
+    case 'text_absent': {
+      const data = await queryElixir(conn, { action: 'text_visible', text: options.text });
+      const met = condition === 'text_visible' ? data.visible : !data.visible;
+      return { met, state: `text "${options.text}" is ${data.visible ? 'visible' : 'not visible'}` };
+    }
+    case 'element_present':
+    case 'element_absent': {
+      const present = options.selector
+        ? resolveSelector(await getSemanticElements(conn), options.selector).length > 0
+        : (await queryElixir(conn, { action: 'find_clickable', filter: options.element_id })).count > 0;
+      const met = condition === 'element_present' ? present : !present;
+      return { met, state: `element ${options.selector ?? options.element_id} is ${present ? 'present' : 'absent'}` };
+    }
+    case 'scripts_changed': {
+      const data = await queryElixir(conn, { action: 'inspect_viewport' });
+      const scriptCount = data.script_count;
+      const met = options.baselineScriptCount !== undefined && scriptCount !== options.baselineScriptCount;
+      const baseline = options.baselineScriptCount ?? scriptCount;
+      return { met, scriptCount, state: `script count ${scriptCount} (started at ${baseline})` };
+    }
+    default:
+      throw new Error(`Unknown wait condition: ${condition}`);
+  }
+}
+
+// Describes an element_at result (also reported by send_mouse_click with report_hit)
+function formatHit(hit: any): string {
+  if (hit.error) {
+    return `Hit test unavailable: ${hit.error}`;
+  }
+
+  const lines: string[] = [];
+  if (hit.topmost) {
+    lines.push(`Topmost element at (${hit.x}, ${hit.y}): ${describeHitElement(hit.topmost)}`);
+  } else {
+    lines.push(`No element at (${hit.x}, ${hit.y})`);
+  }
+
+  if (hit.count > 1) {
+    lines.push(`All ${hit.count} elements under the point (topmost first):`);
+    hit.elements.forEach((el: any, i: number) => lines.push(`  ${i + 1}. ${describeHitElement(el)}`));
+  }
+
+  if (hit.nearest_clickable) {
+    const { element, distance } = hit.nearest_clickable;
+    lines.push(`Nearest clickable element: ${describeHitElement(element)}, ${distance}px away`);
+  }
+
+  return lines.join('\n');
+}
+
+function describeHitElement(el: any): string {
+  return describeElement(el) + (el.clickable ? '' : ' (not clickable)');
+}
+
+// One line per event:
+//   +120ms #3 cursor_button press left (100, 200) [shift] -> MyApp.Scene.Home (:save_button)
+function formatInputTrace(data: any): string {
+  const state = data.tracing ? 'running' : 'stopped';
+  let text = `Input Trace (${state}) - ${data.count} event(s) over ${formatDuration(data.duration_ms)}\n${'='.repeat(50)}\n`;
+
+  if (data.dropped > 0) {
+    text += `${data.dropped} older event(s) were dropped; raise max_events to keep more.\n`;
+  }
+  if (data.stopped_reason) {
+    text += `The viewport stopped during the trace: ${data.stopped_reason}\n`;
+  }
+
+  if (!data.started_at) {
+    return text + '\nNo trace has been started. Call start_input_trace first.';
+  }
+  if (data.events.length === 0) {
+    return text + '\nNo input events reached the viewport.';
+  }
+
+  const lines = data.events.map((event: any) => {
+    let line = `+${event.t_ms}ms #${event.seq} ${event.type}`;
+    if (event.action) line += ` ${event.action}`;
+    if (event.button) line += ` ${event.button}`;
+    if (event.key !== undefined) line += ` ${JSON.stringify(event.key)}`;
+    if (event.dx !== undefined) line += ` by (${event.dx}, ${event.dy})`;
+    if (event.x !== undefined) line += ` (${event.x}, ${event.y})`;
+    if (event.modifiers?.length > 0) line += ` [${event.modifiers.join('+')}]`;
+    if (event.data) line += ` ${event.data}`;
+
+    const handlers = event.handled_by.map((h: any) => (h.id ? `${h.scene} (${h.id})` : h.scene));
+    return line + ` -> ${handlers.length > 0 ? handlers.join(', ') : 'unhandled'}`;
+  });
+
+  return text + '\n' + lines.join('\n');
+}
+
+interface SceneNode {
+  type: string;
+  id: string | null;
+  path: string;
+  transforms: Record<string, number | number[]>;
+  bounds: { left: number; top: number; width: number; height: number } | null;
+  text: string | null;
+  children: SceneNode[];
+  hidden_children?: number;
+}
+
+// One line per node, indented by depth:
+//   rect :save_button [0.1.0] translate(10, 20) @ (10, 20) 80x30
+function formatSceneTree(data: any): string {
+  const nodes: SceneNode[] = data.nodes || [];
+  let text = `Scene Tree${data.root ? ` under ${data.root}` : ''}\n${'='.repeat(50)}\n`;
+  text += `Nodes: ${data.node_count}${data.max_depth ? ` (showing ${data.max_depth} level(s))` : ''}\n\n`;
+
+  if (nodes.length === 0) {
+    return text + 'The scene graph is empty.';
+  }
+
+  const lines: string[] = [];
+  const visit = (node: SceneNode, depth: number) => {
+    let line = `${'  '.repeat(depth)}${node.type}`;
+    if (node.id) line += ` ${node.id}`;
+    line += ` [${node.path}]`;
+
+    const transforms = Object.entries(node.transforms || {}).map(([name, value]) =>
+      `${name}(${Array.isArray(value) ? value.map(formatNumber).join(', ') : formatNumber(value)})`
+    );
+    if (transforms.length > 0) line += ` ${transforms.join(' ')}`;
+
+    if (node.bounds) {
+      const b = node.bounds;
+      line += ` @ (${formatNumber(b.left)}, ${formatNumber(b.top)}) ${formatNumber(b.width)}x${formatNumber(b.height)}`;
+    }
+    if (node.text) line += ` ${JSON.stringify(node.text)}`;
+    if (node.hidden_children) line += ` (+${node.hidden_children} more)`;
+
+    lines.push(line);
+    node.children.forEach((child) => visit(child, depth + 1));
+  };
+  nodes.forEach((node) => visit(node, 0));
+
+  return text + lines.join('\n') + '\n\nBounds are absolute screen coordinates; text bounds are estimated from the font size.';
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2).replace(/\.?0+$/, '');
+}
+
+// Send a command and parse the reply, turning Elixir-side errors into exceptions
+async function queryElixir(conn: ConnectionContext, command: any): Promise<any> {
+  const response = await conn.sendToElixir(command);
+  const data = JSON.parse(response);
+
+  if (data.error) {
+    throw new Error(data.error);
+  }
+
+  return data;
+}
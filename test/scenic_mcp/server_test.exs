@@ -9,7 +9,9 @@ defmodule ScenicMcp.ServerTest do
     port = 9998 + :rand.uniform(100)  # Random port to avoid conflicts
     server_name = :"test_server_#{:rand.uniform(10000)}"
 
-    {:ok, server_pid} = GenServer.start_link(ScenicMcp.Server, [port: port], name: server_name)
+    # auth_token: nil keeps a SCENIC_MCP_TOKEN exported in the shell from enabling auth
+    {:ok, server_pid} =
+      GenServer.start_link(ScenicMcp.Server, [port: port, auth_token: nil], name: server_name)
 
     # Give the server time to start
     Process.sleep(200)
@@ -53,6 +55,126 @@ defmodule ScenicMcp.ServerTest do
       assert is_map(response)
       assert response["error"] == "Unknown command"
     end
+
+    test "server echoes request_id on replies", %{port: port} do
+      command = %{"action" => "status", "request_id" => 42}
+      response = send_tcp_command(port, command)
+
+      assert response["status"] == "ok"
+      assert response["request_id"] == 42
+    end
+
+    test "server echoes request_id on error replies", %{port: port} do
+      command = %{"action" => "unknown_command", "request_id" => 7}
+      response = send_tcp_command(port, command)
+
+      assert response["error"] == "Unknown command"
+      assert response["request_id"] == 7
+    end
+
+    test "server answers hello sent as a JSON action", %{port: port} do
+      response = send_tcp_command(port, %{"action" => "hello", "request_id" => 1})
+
+      assert response["status"] == "ok"
+      assert response["request_id"] == 1
+    end
+
+    test "hello describes the app for discovery", %{port: port} do
+      response = send_raw_tcp_command(port, "hello")
+
+      assert response["status"] == "ok"
+      assert response["app_name"] == ScenicMcp.Config.app_name()
+      assert response["viewport_name"] == "main_viewport"
+      assert response["driver_name"] == "scenic_driver"
+    end
+
+    test "hello identifies the running instance for restart detection", %{port: port} do
+      response = send_raw_tcp_command(port, "hello")
+
+      assert response["instance_id"] == System.pid()
+      assert is_integer(response["uptime_ms"])
+    end
+  end
+
+  describe "unix socket transport" do
+    setup do
+      path = Path.join(System.tmp_dir!(), "scenic_mcp_test_#{System.unique_integer([:positive])}.sock")
+      on_exit(fn -> File.rm(path) end)
+      %{socket_path: path}
+    end
+
+    test "server listens on a socket path instead of a port", %{socket_path: path} do
+      {:ok, server_pid} = GenServer.start_link(ScenicMcp.Server, port: 0, socket_path: path, auth_token: nil)
+
+      {:ok, socket} = :gen_tcp.connect({:local, path}, 0, [:binary, packet: :line, active: false])
+      assert %{"status" => "ok"} = exchange(socket, %{"action" => "hello"})
+      assert Bitwise.band(File.stat!(path).mode, 0o777) == 0o600
+
+      :gen_tcp.close(socket)
+      GenServer.stop(server_pid)
+    end
+
+    test "server replaces a stale socket file left by a previous run", %{socket_path: path} do
+      {:ok, stale} = :gen_tcp.listen(0, [{:ifaddr, {:local, path}}])
+      :gen_tcp.close(stale)
+      assert File.exists?(path)
+
+      {:ok, server_pid} = GenServer.start_link(ScenicMcp.Server, port: 0, socket_path: path, auth_token: nil)
+
+      {:ok, socket} = :gen_tcp.connect({:local, path}, 0, [:binary, packet: :line, active: false])
+      assert %{"status" => "ok"} = exchange(socket, %{"action" => "status"})
+
+      :gen_tcp.close(socket)
+      GenServer.stop(server_pid)
+    end
+  end
+
+  describe "authentication" do
+    setup do
+      port = 10_100 + :rand.uniform(100)
+      {:ok, server_pid} = GenServer.start_link(ScenicMcp.Server, port: port, auth_token: "s3cret")
+      Process.sleep(200)
+
+      on_exit(fn ->
+        if Process.alive?(server_pid), do: GenServer.stop(server_pid)
+      end)
+
+      %{auth_port: port}
+    end
+
+    test "commands are rejected until the client authenticates", %{auth_port: port} do
+      response = send_tcp_command(port, %{"action" => "status", "request_id" => 3})
+
+      assert String.starts_with?(response["error"], "Authentication required")
+      assert response["auth_required"] == true
+      assert response["request_id"] == 3
+    end
+
+    test "hello reports that a token is required", %{auth_port: port} do
+      response = send_raw_tcp_command(port, "hello")
+
+      assert response["status"] == "ok"
+      assert response["auth_required"] == true
+      assert response["authenticated"] == false
+    end
+
+    test "a valid token unlocks the connection", %{auth_port: port} do
+      socket = open_socket(port)
+
+      assert %{"authenticated" => true} = exchange(socket, %{"action" => "auth", "token" => "s3cret"})
+      assert %{"status" => "ok"} = exchange(socket, %{"action" => "status"})
+
+      :gen_tcp.close(socket)
+    end
+
+    test "an invalid token closes the connection", %{auth_port: port} do
+      socket = open_socket(port)
+
+      assert %{"error" => "Authentication failed: invalid token"} =
+               exchange(socket, %{"action" => "auth", "token" => "guess"})
+
+      assert {:error, :closed} = :gen_tcp.recv(socket, 0, 1000)
+    end
   end
 
   describe "command handling" do
@@ -64,6 +186,72 @@ defmodule ScenicMcp.ServerTest do
       assert String.contains?(response["error"], "Unable to find Scenic viewport process")
     end
 
+    test "inspect_viewport rejects unknown modes", %{port: port} do
+      command = %{"action" => "inspect_viewport", "mode" => "sideways"}
+      response = send_tcp_command(port, command)
+
+      assert String.contains?(response["error"], "Invalid mode")
+    end
+
+    test "inspect_viewport tree mode requires a positive max_depth", %{port: port} do
+      command = %{"action" => "inspect_viewport", "mode" => "tree", "max_depth" => 0}
+      response = send_tcp_command(port, command)
+
+      assert response["error"] == "Invalid parameters: 'max_depth' must be a positive integer"
+    end
+
+    test "script_versions returns error when no viewport available", %{port: port} do
+      command = %{"action" => "script_versions"}
+      response = send_tcp_command(port, command)
+
+      assert is_map(response)
+      assert String.contains?(response["error"], "Unable to find Scenic viewport process")
+    end
+
+    test "get_script requires an id", %{port: port} do
+      command = %{"action" => "get_script"}
+      response = send_tcp_command(port, command)
+
+      assert response["error"] == "Invalid parameters: must provide 'id' parameter"
+    end
+
+    test "element_at returns error when no viewport available", %{port: port} do
+      command = %{"action" => "element_at", "x" => 100, "y" => 200}
+      response = send_tcp_command(port, command)
+
+      assert String.contains?(response["error"], "Unable to find Scenic viewport process")
+    end
+
+    test "element_at requires coordinates", %{port: port} do
+      command = %{"action" => "element_at", "x" => 100}
+      response = send_tcp_command(port, command)
+
+      assert response["error"] == "Invalid parameters: must provide 'x' and 'y' coordinates"
+    end
+
+    test "start_input_trace returns error when no viewport available", %{port: port} do
+      command = %{"action" => "start_input_trace"}
+      response = send_tcp_command(port, command)
+
+      assert String.contains?(response["error"], "Unable to find Scenic viewport process")
+    end
+
+    test "start_input_trace requires a positive max_events", %{port: port} do
+      command = %{"action" => "start_input_trace", "max_events" => 0}
+      response = send_tcp_command(port, command)
+
+      assert response["error"] == "Invalid parameters: 'max_events' must be a positive integer"
+    end
+
+    test "get_input_trace reports that no trace is running", %{port: port} do
+      command = %{"action" => "get_input_trace"}
+      response = send_tcp_command(port, command)
+
+      assert response["status"] == "ok"
+      assert response["tracing"] == false
+      assert response["events"] == []
+    end
+
     test "send_keys returns error when no driver available", %{port: port} do
       command = %{"action" => "send_keys", "text" => "hello"}
       response = send_tcp_command(port, command)
@@ -80,6 +268,87 @@ defmodule ScenicMcp.ServerTest do
       assert String.contains?(response["error"], "Unable to find Scenic driver process")
     end
 
+    test "send_mouse_down returns error when no driver available", %{port: port} do
+      command = %{"action" => "send_mouse_down", "x" => 100, "y" => 200}
+      response = send_tcp_command(port, command)
+
+      assert is_map(response)
+      assert String.contains?(response["error"], "Unable to find Scenic driver process")
+    end
+
+    test "double-click with modifiers returns error when no driver available", %{port: port} do
+      command = %{
+        "action" => "send_mouse_click",
+        "x" => 100,
+        "y" => 200,
+        "click_count" => 2,
+        "modifiers" => ["shift"]
+      }
+
+      response = send_tcp_command(port, command)
+
+      assert is_map(response)
+      assert String.contains?(response["error"], "Unable to find Scenic driver process")
+    end
+
+    test "send_mouse_click rejects a click_count that is not a positive integer", %{port: port} do
+      for click_count <- [2.5, "2", 0] do
+        command = %{"action" => "send_mouse_click", "x" => 100, "y" => 200, "click_count" => click_count}
+        response = send_tcp_command(port, command)
+
+        assert response["error"] == "click_count must be a positive integer"
+      end
+
+      # The server is still answering after the bad requests
+      assert String.contains?(send_tcp_command(port, %{"action" => "send_mouse_move", "x" => 1, "y" => 1})["error"], "driver")
+    end
+
+    test "send_scroll returns error when no driver available", %{port: port} do
+      command = %{"action" => "send_scroll", "dx" => 0, "dy" => -1}
+      response = send_tcp_command(port, command)
+
+      assert is_map(response)
+      assert String.contains?(response["error"], "Unable to find Scenic driver process")
+    end
+
+    test "drag returns error when end point is missing", %{port: port} do
+      command = %{"action" => "drag", "from_x" => 10, "from_y" => 10}
+      response = send_tcp_command(port, command)
+
+      assert is_map(response)
+      assert String.contains?(response["error"], "to_x")
+    end
+
+    test "drag rejects non-integer steps", %{port: port} do
+      command = %{"action" => "drag", "from_x" => 10, "from_y" => 10, "to_x" => 50, "to_y" => 10, "steps" => 2.5}
+      response = send_tcp_command(port, command)
+
+      assert response["error"] == "steps must be an integer"
+    end
+
+    test "text_visible reports text as not visible when no viewport available", %{port: port} do
+      command = %{"action" => "text_visible", "text" => "Save"}
+      response = send_tcp_command(port, command)
+
+      assert response["status"] == "ok"
+      assert response["visible"] == false
+    end
+
+    test "get_rendered_text rejects unknown modes", %{port: port} do
+      command = %{"action" => "get_rendered_text", "mode" => "sideways"}
+      response = send_tcp_command(port, command)
+
+      assert String.contains?(response["error"], "Invalid mode")
+    end
+
+    test "assert_text fails when text is not rendered", %{port: port} do
+      command = %{"action" => "assert_text", "text" => "Save"}
+      response = send_tcp_command(port, command)
+
+      assert response["status"] == "ok"
+      assert response["passed"] == false
+    end
+
     test "take_screenshot returns error when no viewport available", %{port: port} do
       command = %{"action" => "take_screenshot"}
       response = send_tcp_command(port, command)
@@ -112,6 +381,17 @@ defmodule ScenicMcp.ServerTest do
     send_raw_tcp_command(port, json_command)
   end
 
+  defp open_socket(port) do
+    {:ok, socket} = :gen_tcp.connect(~c"localhost", port, [:binary, packet: :line, active: false])
+    socket
+  end
+
+  defp exchange(socket, command) do
+    :ok = :gen_tcp.send(socket, Jason.encode!(command) <> "\n")
+    {:ok, response} = :gen_tcp.recv(socket, 0, 5000)
+    Jason.decode!(String.trim(response))
+  end
+
   defp send_raw_tcp_command(port, raw_command) do
     {:ok, socket} = :gen_tcp.connect(~c"localhost", port, [:binary, packet: :line, active: false])
     